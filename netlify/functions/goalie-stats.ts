@@ -1,184 +1,250 @@
 import { Handler } from "@netlify/functions";
-import axios from "axios";
-import { parse } from "csv-parse/sync";
+import { normalizeTeamCode, resolveTeam, unknownTeamResponse } from "../lib/teams";
+import { chooseStarter, loadStarters } from "../lib/starters";
+import { describeCandidates, PlayerAccessors, resolvePlayer } from "../lib/players";
+import { resolveSeasonParams } from "../lib/season";
+import { SourceMeta } from "../lib/cache";
+import { loadGoalieGameLog, loadSeasonCsv } from "../lib/sources";
+import { GOALIE_COLUMNS, goalieGsax, goalieSvPct, readFloat, ROW_FIELDS } from "../lib/rows";
+import { CsvRow, DangerBand, GoalieForm, GoalieSituation, GoalieStarterInfo, GoalieStats, PlayerNameMatch } from "../lib/types";
+import { errorResponse, failureResponse } from "../lib/errors";
+import { ApiWarning, collectWarnings, warning } from "../lib/warnings";
+import { exportFilename, exportResponse, invalidFormatResponse, parseFormat, toCsv } from "../lib/exports";
 
 // --- DATA SOURCES ---
-// 1. MoneyPuck: For the advanced stats (GSAx)
-const MONEYPUCK_GOALIES_URL = "https://moneypuck.com/moneypuck/playerData/seasonSummary/2024/regular/goalies.csv";
+// 1. MoneyPuck: For the advanced stats (GSAx). URL is built per season (see lib/season)
 // 2. NHL Official API: For "Confirmed/Probable" starting status
-const NHL_SCHEDULE_URL = "https://api-web.nhle.com/v1/schedule/now";
-
-// --- CACHE ---
-let cachedGoalieStats: any = null;
-let cachedStarterData: any = null;
-let lastFetchTime = 0;
-let lastStarterFetchTime = 0;
-const CACHE_DURATION = 1000 * 60 * 60; // 1 Hour (Stats)
-const STARTER_CACHE_DURATION = 1000 * 60 * 10; // 10 Minutes (Starters change often)
-
-// --- TEAM MAPPING ---
-const normalizeTeamCode = (input: string) => {
-  if (!input) return "";
-  const map: Record<string, string> = {
-    "S.J": "SJS", "SJ": "SJS", "San Jose Sharks": "SJS",
-    "T.B": "TBL", "TB": "TBL", "Tampa Bay Lightning": "TBL",
-    "L.A": "LAK", "LA": "LAK", "Los Angeles Kings": "LAK",
-    "N.J": "NJD", "NJ": "NJD", "New Jersey Devils": "NJD",
-    "NYR": "NYR", "New York Rangers": "NYR", 
-    "NYI": "NYI", "New York Islanders": "NYI",
-    "VEG": "VGK", "VGK": "VGK", "Vegas Golden Knights": "VGK",
-    "MTL": "MTL", "Montreal Canadiens": "MTL",
-    "VAN": "VAN", "Vancouver Canucks": "VAN",
-    "TOR": "TOR", "Toronto Maple Leafs": "TOR",
-    "BOS": "BOS", "Boston Bruins": "BOS",
-    "BUF": "BUF", "Buffalo Sabres": "BUF",
-    "OTT": "OTT", "Ottawa Senators": "OTT",
-    "FLA": "FLA", "Florida Panthers": "FLA",
-    "DET": "DET", "Detroit Red Wings": "DET",
-    "PIT": "PIT", "Pittsburgh Penguins": "PIT",
-    "WSH": "WSH", "Washington Capitals": "WSH",
-    "PHI": "PHI", "Philadelphia Flyers": "PHI",
-    "CBJ": "CBJ", "Columbus Blue Jackets": "CBJ",
-    "CAR": "CAR", "Carolina Hurricanes": "CAR",
-    "CHI": "CHI", "Chicago Blackhawks": "CHI",
-    "NSH": "NSH", "Nashville Predators": "NSH",
-    "STL": "STL", "St. Louis Blues": "STL",
-    "MIN": "MIN", "Minnesota Wild": "MIN",
-    "WPG": "WPG", "Winnipeg Jets": "WPG",
-    "COL": "COL", "Colorado Avalanche": "COL",
-    "DAL": "DAL", "Dallas Stars": "DAL",
-    "ARI": "UTA", "UTA": "UTA", "Utah Hockey Club": "UTA",
-    "EDM": "EDM", "Edmonton Oilers": "EDM",
-    "CGY": "CGY", "Calgary Flames": "CGY",
-    "ANA": "ANA", "Anaheim Ducks": "ANA",
-    "SEA": "SEA", "Seattle Kraken": "SEA"
+//    (schedule fetch and starter status logic live in lib/starters)
+// Both are cached through lib/cache; the response's `sources` block reports their age.
+
+const round = (val: number, digits = 3) => parseFloat(val.toFixed(digits));
+
+// --- SHRINKAGE ---
+// Small samples are pulled toward league average: GSAx/60 toward 0 with a prior
+// worth SHRINK_MINUTES of ice time, SV% toward LEAGUE_SV_PCT with a prior of SHRINK_SHOTS.
+const SHRINK_MINUTES = 600;   // ~10 full games
+const SHRINK_SHOTS = 750;
+const LEAGUE_SV_PCT = 0.903;
+
+const shrinkGsax = (gsaxPer60: number, minutes: number) => gsaxPer60 * (minutes / (minutes + SHRINK_MINUTES));
+const shrinkSvPct = (saves: number, shots: number) => (saves + LEAGUE_SV_PCT * SHRINK_SHOTS) / (shots + SHRINK_SHOTS);
+
+// --- SPLITS ---
+const SPLIT_SITUATIONS = ["5on5", "4on5", "other"];
+
+const situationSplit = (row: CsvRow): GoalieSituation => {
+  const seconds = readFloat(row, GOALIE_COLUMNS.iceTime);
+  const gsax = goalieGsax(row);
+  return {
+    minutes: round(seconds / 60, 1),
+    shots: readFloat(row, GOALIE_COLUMNS.shots),
+    goalsAgainst: readFloat(row, GOALIE_COLUMNS.goalsAgainst),
+    svPercent: round(goalieSvPct(row)),
+    gsax: round(gsax, 2),
+    gsaxPer60: seconds > 0 ? round((gsax * 3600) / seconds) : 0
   };
-  return map[input] || input.substring(0, 3).toUpperCase();
 };
 
-// --- HELPER: SAFE NUMBER PARSER ---
-const getFloat = (row: any, keys: string[]) => {
-  for (const key of keys) {
-    if (row[key] !== undefined && row[key] !== null && row[key] !== "") {
-      const val = parseFloat(row[key]);
-      if (!isNaN(val)) return val;
-    }
-  }
-  return 0;
+// High / medium / low danger: shots, goals and save percentage per band
+const dangerSplit = (row: CsvRow): Record<string, DangerBand> => Object.fromEntries(["high", "medium", "low"].map((band) => {
+  const shots = readFloat(row, [`${band}DangerShots`]);
+  const goals = readFloat(row, [`${band}DangerGoals`]);
+  return [band, {
+    shots,
+    goals,
+    xGoals: round(readFloat(row, [`${band}DangerxGoals`]), 2),
+    svPercent: shots > 0 ? round(1 - goals / shots) : null
+  }];
+}));
+
+// --- RECENT FORM ---
+// Last N games from the goalie's game-by-game log (this season, up to the requested date).
+// One file per goalie, so it's only loaded for the first FORM_MAX_GOALIES in the result.
+const FORM_MAX_GOALIES = 12;
+const DEFAULT_FORM_GAMES = 10;
+
+const recentForm = (log: CsvRow[], season: number, lastN: number, until?: string): GoalieForm | null => {
+  const games = log
+    .filter((row) => parseInt(row.season) === season && row.situation === "all" && (!until || String(row.gameDate) <= until))
+    .sort((a, b) => String(b.gameDate).localeCompare(String(a.gameDate)))
+    .slice(0, lastN);
+  if (games.length === 0) return null;
+
+  const seconds = games.reduce((sum, row) => sum + readFloat(row, GOALIE_COLUMNS.iceTime), 0);
+  const shots = games.reduce((sum, row) => sum + readFloat(row, GOALIE_COLUMNS.shots), 0);
+  const ga = games.reduce((sum, row) => sum + readFloat(row, GOALIE_COLUMNS.goalsAgainst), 0);
+  const gsax = games.reduce((sum, row) => sum + goalieGsax(row), 0);
+  return {
+    games: games.length,
+    gaa: seconds > 0 ? round((ga * 3600) / seconds, 2) : 0,
+    svPercent: shots > 0 ? round(1 - ga / shots) : 0,
+    gsax: round(gsax, 2),
+    gsaxPer60: seconds > 0 ? round((gsax * 3600) / seconds) : 0,
+    log: games.map((row) => ({
+      date: String(row.gameDate),
+      opponent: normalizeTeamCode(row.opposingTeam),
+      shots: readFloat(row, GOALIE_COLUMNS.shots),
+      goalsAgainst: readFloat(row, GOALIE_COLUMNS.goalsAgainst),
+      gsax: round(goalieGsax(row), 2)
+    }))
+  };
 };
 
+// --- GOALIE IDENTITY ---
+// MoneyPuck's playerId is the NHL player ID; fall back to the name for rows without one
+const goalieKey = (row: CsvRow) => String(row.playerId || ROW_FIELDS.name(row));
+const statsKey = (g: GoalieStats) => String(g.playerId || g.name);
+const GOALIE_FIELDS: PlayerAccessors<GoalieStats> = { id: (g) => g.playerId, name: (g) => g.name };
+
 export const handler: Handler = async (event) => {
-  const { team, name } = event.queryStringParameters || {};
-  const currentTime = Date.now();
-  
+  const { team, name, season, type, blend, date, last, format } = event.queryStringParameters || {};
+
+  const seasonParams = resolveSeasonParams(season, type, date);
+  if (seasonParams.errors.length) {
+    return errorResponse("INVALID_PARAMETERS", "Invalid date or season parameters", { details: seasonParams.errors });
+  }
+  const useBlend = blend === "true" || blend === "1";
+
+  const teamFilter = team ? resolveTeam(team) : null;
+  if (team && !teamFilter) return unknownTeamResponse([team]);
+
+  // ?format=csv: one row per goalie (no games to put on a calendar, so no ics)
+  const exportFormat = parseFormat(format, ["json", "csv"]);
+  if (!exportFormat) return invalidFormatResponse(format!, ["json", "csv"]);
+
+  const sources: SourceMeta[] = [];
   try {
-    // 1. FETCH MONEYPUCK STATS (Long Cache)
-    if (!cachedGoalieStats || (currentTime - lastFetchTime > CACHE_DURATION)) {
-      console.log("Fetching MoneyPuck Goalie Stats...");
-      const response = await axios.get(MONEYPUCK_GOALIES_URL, {
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-          'Accept': 'text/csv,application/json,text/html'
-        }
-      });
-      cachedGoalieStats = parse(response.data, { columns: true, skip_empty_lines: true });
-      lastFetchTime = currentTime;
-    }
+    // 1. FETCH MONEYPUCK STATS (Long Cache) and 2. STARTING GOALIES (Short Cache, per date)
+    // NHL Official Schedule API for the requested day (defaults to today)
+    const [goalieRows, starters] = await Promise.all([
+      loadSeasonCsv(seasonParams.season, seasonParams.type, "goalies", useBlend, sources),
+      loadStarters(date, sources)
+    ]);
 
-    // 2. FETCH STARTING GOALIES (Short Cache)
-    // We use the NHL Official Schedule API to find today's confirmed starters
-    if (!cachedStarterData || (currentTime - lastStarterFetchTime > STARTER_CACHE_DURATION)) {
-       console.log("Fetching NHL Schedule for Starters...");
-       try {
-         const nhlRes = await axios.get(NHL_SCHEDULE_URL);
-         // The API returns a 'gameWeek' array. We want the first day (Today).
-         const todayGames = nhlRes.data.gameWeek?.[0]?.games || [];
-         
-         // Build a map: TeamCode -> { name: "Name", status: "confirmed" }
-         cachedStarterData = {};
-         todayGames.forEach((game: any) => {
-             if (game.awayTeam && game.awayTeam.startingGoalie) {
-                 const code = normalizeTeamCode(game.awayTeam.abbrev);
-                 cachedStarterData[code] = {
-                     name: `${game.awayTeam.startingGoalie.firstName.default} ${game.awayTeam.startingGoalie.lastName.default}`,
-                     status: "confirmed" // NHL API usually only populates this if confirmed/probable
-                 };
-             }
-             if (game.homeTeam && game.homeTeam.startingGoalie) {
-                 const code = normalizeTeamCode(game.homeTeam.abbrev);
-                 cachedStarterData[code] = {
-                     name: `${game.homeTeam.startingGoalie.firstName.default} ${game.homeTeam.startingGoalie.lastName.default}`,
-                     status: "confirmed"
-                 };
-             }
-         });
-         lastStarterFetchTime = currentTime;
-       } catch (e) {
-           console.error("Failed to fetch NHL starters:", e);
-           cachedStarterData = {}; // Fallback to empty
-       }
-    }
+    // Who starts for each team playing: the listed goalie (matched by NHL ID, then name),
+    // otherwise a usage-based projection (backup on a back-to-back)
+    const starterKeys: Record<string, { key: string; status: string }> = {};
+    Object.values(starters).forEach((entry) => {
+      const teamRows = goalieRows.filter((row) =>
+        normalizeTeamCode(row.team || row.Team) === entry.team && (!row.situation || row.situation === "all"));
+      const pick = chooseStarter(teamRows, entry, ROW_FIELDS, (row) => readFloat(row, GOALIE_COLUMNS.gamesPlayed));
+      if (pick) starterKeys[entry.team] = { key: goalieKey(pick.row), status: pick.status };
+    });
 
     // 3. PROCESS & CALCULATE STATS
-    let results = cachedGoalieStats.map((row: any) => {
-      const seconds = getFloat(row, ['iceTime', 'Icetime', 'timeOnIce', 'icetime']);
+    // One entry per goalie from the "all" row; the other situations become splits
+    const bySituation = new Map<string, Record<string, CsvRow>>();
+    goalieRows.forEach((row) => {
+      const key = goalieKey(row);
+      bySituation.set(key, { ...(bySituation.get(key) || {}), [row.situation || "all"]: row });
+    });
+
+    let results = [...bySituation.values()].map((splits): GoalieStats | null => {
+      const row = splits.all;
+      if (!row) return null;
+      const seconds = readFloat(row, GOALIE_COLUMNS.iceTime);
       if (seconds <= 0) return null;
 
-      const ga = getFloat(row, ['goalsAgainst', 'GoalsAgainst']);
-      const totalGSAx = getFloat(row, ['goalsSavedAboveExpected', 'GoalsSavedAboveExpected', 'xGoalsSaved']);
-      const svPct = getFloat(row, ['savePercentage', 'SavePercentage']);
-      const gamesPlayed = getFloat(row, ['gamesPlayed', 'GamesPlayed']);
+      const ga = readFloat(row, GOALIE_COLUMNS.goalsAgainst);
+      const totalGSAx = goalieGsax(row);
+      const svPct = goalieSvPct(row);
+      const shots = readFloat(row, GOALIE_COLUMNS.shots);
+      const gamesPlayed = readFloat(row, GOALIE_COLUMNS.gamesPlayed);
+      const minutes = seconds / 60;
 
       const gaa = (ga * 3600) / seconds;
       const gsaxPer60 = (totalGSAx * 3600) / seconds;
 
       const teamCode = normalizeTeamCode(row.team || row.Team);
-      const goalieName = row.name || row.Name;
+      const goalieName = ROW_FIELDS.name(row);
       
       // CHECK IF STARTER
-      // We check if this goalie's team has a starter listed, and if the names match loosely
-      let starterInfo = { isStarter: false, status: "Unconfirmed" };
-      if (cachedStarterData && cachedStarterData[teamCode]) {
-          const starter = cachedStarterData[teamCode];
-          // Simple includes check covers "Bobrovsky" matching "Sergei Bobrovsky"
-          if (starter.name.includes(goalieName) || goalieName.includes(starter.name.split(" ").pop()!)) {
-              starterInfo = { isStarter: true, status: starter.status };
-          }
+      // status: confirmed / probable / projected-by-usage for the starter,
+      // "not-starting" for the other goalies on a team that plays, "no-game" otherwise
+      const entry = starters[teamCode];
+      const chosen = starterKeys[teamCode];
+      let starterInfo: GoalieStarterInfo = { isStarter: false, status: entry ? "not-starting" : "no-game", lastSeen: null, backToBack: entry?.backToBack ?? null };
+      if (entry && !chosen) {
+          starterInfo = { ...starterInfo, status: "unknown" };
+      } else if (chosen && chosen.key === goalieKey(row)) {
+          starterInfo = {
+            ...starterInfo,
+            isStarter: true,
+            status: chosen.status,
+            lastSeen: chosen.status === "projected-by-usage" ? null : entry.lastSeen
+          };
       }
 
       return {
+        playerId: row.playerId || null,
         name: goalieName,
         team: teamCode,
         gamesPlayed: gamesPlayed,
         stats: {
           gaa: parseFloat(gaa.toFixed(2)),
-          svPercent: svPct,
+          svPercent: round(svPct),
           gsaxPer60: parseFloat(gsaxPer60.toFixed(3)),
-          totalGSAx: parseFloat(totalGSAx.toFixed(2))
+          totalGSAx: parseFloat(totalGSAx.toFixed(2)),
+          // Shrunk toward league average; sample sizes alongside
+          svPercentShrunk: shots > 0 ? round(shrinkSvPct(shots - ga, shots)) : LEAGUE_SV_PCT,
+          gsaxPer60Shrunk: round(shrinkGsax(gsaxPer60, minutes)),
+          sample: { games: gamesPlayed, minutes: round(minutes, 1), shots }
         },
+        situations: Object.fromEntries(SPLIT_SITUATIONS.filter((sit) => splits[sit]).map((sit) => [sit, situationSplit(splits[sit])])),
+        danger: dangerSplit(row),
+        form: null,
         starter: starterInfo // New Field
       };
-    }).filter((g: any) => g !== null);
+    }).filter((g): g is GoalieStats => g !== null);
 
     // 4. OPTIONAL FILTERING
-    if (team) {
-      const targetTeam = normalizeTeamCode(team);
-      results = results.filter((g: any) => g.team === targetTeam);
+    if (teamFilter) {
+      results = results.filter((g) => g.team === teamFilter.code);
     }
 
+    // Name or NHL player ID. More than one goalie -> all of them, flagged as ambiguous.
+    let nameMatch: PlayerNameMatch | null = null;
     if (name) {
-      const targetName = name.toLowerCase();
-      results = results.filter((g: any) => g.name.toLowerCase().includes(targetName));
+      const match = resolvePlayer(results, name, GOALIE_FIELDS);
+      const keep = new Set(match.candidates.map(statsKey));
+      results = results.filter((g) => keep.has(statsKey(g)));
+      nameMatch = {
+        query: name,
+        status: match.status,
+        candidates: match.status === "ambiguous" ? describeCandidates(match.candidates, GOALIE_FIELDS, (g) => g.team) : []
+      };
     }
 
     // 5. SORTING
-    // Prioritize Confirmed Starters, then by GSAx
-    results.sort((a: any, b: any) => {
+    // Prioritize Confirmed Starters, then by shrunk GSAx (a hot 3-start sample can't top the list)
+    results.sort((a, b) => {
         if (a.starter.isStarter && !b.starter.isStarter) return -1;
         if (!a.starter.isStarter && b.starter.isStarter) return 1;
-        return b.stats.gsaxPer60 - a.stats.gsaxPer60;
+        return b.stats.gsaxPer60Shrunk - a.stats.gsaxPer60Shrunk;
     });
 
+    // 6. RECENT FORM (?last=N, game logs for the top of the list only)
+    let formInfo: { games: number; goalies: number; limit: number } | null = null;
+    const warnings: ApiWarning[] = [];
+    if (last !== undefined) {
+      const lastN = parseInt(last) > 0 ? parseInt(last) : DEFAULT_FORM_GAMES;
+      const until = date ? date.replace(/-/g, "") : undefined;
+      await Promise.all(results.slice(0, FORM_MAX_GOALIES).map(async (g) => {
+        if (!g.playerId) return;
+        try {
+          g.form = recentForm(await loadGoalieGameLog(seasonParams.type, g.playerId, sources), seasonParams.season, lastN, until);
+        } catch (e) {
+          console.log(`Game log fetch failed for ${g.playerId}`);
+          warnings.push(warning("FORM_UNAVAILABLE", `No game log for ${g.name}: recent form left out`));
+        }
+      }));
+      formInfo = { games: lastN, goalies: Math.min(results.length, FORM_MAX_GOALIES), limit: FORM_MAX_GOALIES };
+    }
+
+    if (exportFormat === "csv") {
+      return exportResponse("csv", exportFilename("goalie-stats", date, "csv"), toCsv(results), "public, max-age=3600");
+    }
+
     return {
       statusCode: 200,
       headers: { 
@@ -187,15 +253,18 @@ export const handler: Handler = async (event) => {
         "Cache-Control": "public, max-age=3600" 
       },
       body: JSON.stringify({
+        date: date || "Today",
+        season: { season: seasonParams.season, type: seasonParams.type, blended: useBlend },
+        match: nameMatch,
+        form: formInfo,
         count: results.length,
-        goalies: results
+        goalies: results,
+        warnings: collectWarnings(sources, warnings),
+        sources
       }),
     };
 
   } catch (error) {
-    return {
-      statusCode: 500,
-      body: JSON.stringify({ error: "Failed to fetch goalie stats", details: String(error) }),
-    };
+    return failureResponse(error, "Failed to fetch goalie stats", sources);
   }
 };
@@ -1,44 +1,68 @@
 import { Handler } from "@netlify/functions";
-import axios from "axios";
+import { resolveSeasonParams } from "../lib/season";
+import { normalizeTeamCode } from "../lib/teams";
+import { SourceMeta } from "../lib/cache";
+import { loadScoreboard } from "../lib/sources";
+import { loadOddsHistory, summarizeHistory } from "../lib/lines";
+import { OddsGame } from "../lib/types";
+import { errorResponse, failureResponse } from "../lib/errors";
+import { collectWarnings, marketWarnings } from "../lib/warnings";
+import { gameLines, loadBookLines, primaryMarket } from "../lib/providers";
+import { loadStarters } from "../lib/starters";
+import { exportFilename, exportResponse, invalidFormatResponse, parseFormat, toCsv, toIcs } from "../lib/exports";
 
 // --- SOURCE ---
 // The ESPN Scoreboard is the industry standard for free, fast live data.
-const ESPN_URL = "https://site.api.espn.com/apis/site/v2/sports/hockey/nhl/scoreboard";
-
-// --- TEAM MAPPING ---
-// Standardizes ESPN's abbreviations (e.g. "SJ" -> "SJS") to match your Model
-const normalizeTeam = (code: string) => {
-  const map: Record<string, string> = {
-    "SJ": "SJS", "TB": "TBL", "LA": "LAK", "NJ": "NJD", 
-    "UTA": "ARI", "ARI": "ARI" // Handle Utah/Arizona mapping
-  };
-  return map[code] || code;
-};
+// Fetched and cached through lib/sources (shared with savant-api). Prices come from every
+// configured odds provider (lib/providers): ESPN's books first, then any feed.
 
 export const handler: Handler = async (event) => {
-  // Optional: Allow passing a specific date (?date=20231125)
-  const { date } = event.queryStringParameters || {};
-  
-  try {
-    const url = date ? `${ESPN_URL}?dates=${date}` : ESPN_URL;
-    console.log(`Fetching Odds from: ${url}`);
+  // Optional: Allow passing a specific date (?date=20231125) and game type (?type=playoffs).
+  // No ?season: the board is per date, and the season reported is the date's.
+  const { date, type, action, gameId, format } = event.queryStringParameters || {};
 
-    // Spoof Browser User-Agent to ensure we don't get blocked
-    const response = await axios.get(url, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/91.0.4472.124 Safari/537.36'
+  // --- LINE HISTORY (?action=history&gameId=) ---
+  // Snapshots of every ESPN book recorded on each scoreboard fetch: opener, current line and the biggest moves
+  if (action === "history") {
+    if (!gameId) return errorResponse("MISSING_PARAMETERS", "Missing gameId", { missing: ["gameId"] });
+    try {
+      const history = await loadOddsHistory(gameId);
+      if (!history || history.snapshots.length === 0) {
+        return errorResponse("NO_GAME_FOUND", "No odds history for game", { gameId });
       }
-    });
+      return {
+        statusCode: 200,
+        headers: { "Content-Type": "application/json", "Access-Control-Allow-Origin": "*", "Cache-Control": "public, max-age=60" },
+        // Read from the store only: no upstream sources involved
+        body: JSON.stringify({ ...(await summarizeHistory(history)), warnings: [], sources: [] }),
+      };
+    } catch (error) {
+      return failureResponse(error, "Failed to load odds history");
+    }
+  }
 
-    const events = response.data.events || [];
+  const seasonParams = resolveSeasonParams(undefined, type, date);
+  if (seasonParams.errors.length) {
+    return errorResponse("INVALID_PARAMETERS", "Invalid date or season parameters", { details: seasonParams.errors });
+  }
+  // ?format=csv|ics downloads the games instead (see lib/exports)
+  const exportFormat = parseFormat(format);
+  if (!exportFormat) return invalidFormatResponse(format!);
+
+  const sources: SourceMeta[] = [];
+  try {
+    const scoreboard = await loadScoreboard({ date, type: type ? seasonParams.type : undefined }, sources);
+    const events = scoreboard.events || [];
+    const { lines, warnings } = await loadBookLines({ date, scoreboard }, sources);
 
     // --- DATA TRANSFORMATION ---
     // We map the messy ESPN structure into a clean "Savant Odds Object"
-    const marketData = events.map((evt: any) => {
+    const marketData = events.map((evt: any): OddsGame => {
       const competition = evt.competitions[0];
       const home = competition.competitors.find((c: any) => c.homeAway === 'home');
       const away = competition.competitors.find((c: any) => c.homeAway === 'away');
-      const odds = competition.odds ? competition.odds[0] : null;
+      const books = gameLines(lines, normalizeTeamCode(home.team.abbreviation), normalizeTeamCode(away.team.abbreviation));
+      const market = primaryMarket(books);
 
       return {
         gameId: evt.id,
@@ -49,30 +73,48 @@ export const handler: Handler = async (event) => {
         
         homeTeam: {
           name: home.team.displayName,
-          code: normalizeTeam(home.team.abbreviation),
+          code: normalizeTeamCode(home.team.abbreviation),
           score: parseInt(home.score),
           record: competition.series?.summary || "N/A"
         },
         awayTeam: {
           name: away.team.displayName,
-          code: normalizeTeam(away.team.abbreviation),
+          code: normalizeTeamCode(away.team.abbreviation),
           score: parseInt(away.score),
           record: competition.series?.summary || "N/A"
         },
         
         // THE BETTING LINES
+        // Moneylines, spread and total prices with implied / no-vig probabilities (primary book).
+        // Missing prices are null and listed in market.missing.
         market: {
-          // Spread (e.g. "TOR -1.5")
-          line: odds?.details || "OFF", 
-          // Total (e.g. 6.5)
-          total: odds?.overUnder || "OFF",
-          // Moneyline (Often hidden in ESPN, calculated fallback if needed)
-          // Note: ESPN API often creates the 'details' string as the Favorite's Line.
-          favorite: odds?.details?.split(" ")[0] || "N/A" 
-        }
+          ...market,
+          favoriteCode: market.favorite === "home" ? normalizeTeamCode(home.team.abbreviation)
+            : market.favorite === "away" ? normalizeTeamCode(away.team.abbreviation)
+            : null
+        },
+        // Every book, the best price per side and the consensus line
+        lines: books
       };
     });
 
+    if (exportFormat === "csv") {
+      return exportResponse("csv", exportFilename("nhl-odds", date, "csv"), toCsv(marketData), "public, max-age=60");
+    }
+    if (exportFormat === "ics") {
+      // Starters for the event descriptions (none listed when the NHL schedule is down)
+      const starters = await loadStarters(date, sources);
+      const calendar = toIcs("NHL odds", marketData.map((game: OddsGame) => ({
+        id: game.gameId,
+        start: game.date,
+        status: game.status,
+        home: game.homeTeam,
+        away: game.awayTeam,
+        market: game.market
+      })), starters);
+      return exportResponse("ics", exportFilename("nhl-odds", date, "ics"), calendar, "public, max-age=60");
+    }
+
     return {
       statusCode: 200,
       headers: { 
@@ -82,15 +124,16 @@ export const handler: Handler = async (event) => {
       },
       body: JSON.stringify({
         date: date || new Date().toISOString().split('T')[0],
+        season: { season: seasonParams.season, type: seasonParams.type },
         count: marketData.length,
-        games: marketData
+        games: marketData,
+        warnings: collectWarnings(sources, [...warnings, ...marketData.flatMap((game: OddsGame) =>
+          marketWarnings(game.gameId, `${game.awayTeam.code}@${game.homeTeam.code}`, game.market))]),
+        sources
       }),
     };
 
   } catch (error) {
-    return {
-      statusCode: 500,
-      body: JSON.stringify({ error: "Failed to fetch odds", details: String(error) }),
-    };
+    return failureResponse(error, "Failed to fetch odds", sources);
   }
 };
@@ -0,0 +1,11 @@
+import { Handler } from "@netlify/functions";
+import { openApiDocument } from "../lib/openapi";
+
+// --- API DESCRIPTION ---
+// OpenAPI 3.1 for savant-api, goalie-stats and nhl-odds (see lib/openapi).
+// Point a client generator at /.netlify/functions/openapi.
+export const handler: Handler = async () => ({
+  statusCode: 200,
+  headers: { "Content-Type": "application/json", "Access-Control-Allow-Origin": "*", "Cache-Control": "public, max-age=3600" },
+  body: JSON.stringify(openApiDocument(), null, 2),
+});
@@ -1,283 +1,933 @@
-import { Handler } from "@netlify/functions";
-import axios from "axios";
-import { parse } from "csv-parse/sync";
+import { Handler, HandlerEvent, HandlerResponse } from "@netlify/functions";
+import { matchupRates, predictMatchup } from "../lib/model";
+import { MAX_SIMS, simulateMatchup } from "../lib/simulator";
+import { parseEspnMarket } from "../lib/odds";
+import { EdgeGame, findEdges, parseKellyCap } from "../lib/edges";
+import { normalizeTeamCode, resolveTeam, TEAMS, unknownTeamResponse } from "../lib/teams";
+import { loadStarters, projectByUsage, TeamStarter } from "../lib/starters";
+import { describeCandidates, resolvePlayer } from "../lib/players";
+import { GameType, currentSeason, parseDateParam, resolveSeasonParams } from "../lib/season";
+import { SourceMeta } from "../lib/cache";
+import { loadScoreboard, loadSeasonCsv, loadTeamGameLog } from "../lib/sources";
+import { loadClosingLine } from "../lib/lines";
+import { loadRecentGames, RecentGames, teamFatigue, TeamFatigue } from "../lib/fatigue";
+import { eventLiveState, liveWinProbability, loadLiveStates, unreadableClock, winProbabilityTimeline } from "../lib/live";
+import { BacktestGame, MAX_BACKTEST_DAYS, datesBetween, describeGame, scoreBacktest, teamInputsAsOf } from "../lib/backtest";
+import { GOALIE_COLUMNS, goalieGsax, goalieSvPct, readFloat, ROW_FIELDS } from "../lib/rows";
+import { CsvRow, EspnCompetitor, EspnEvent, Game, GoalieSummary, MatchupOdds, TeamStats } from "../lib/types";
+import { errorResponse, failureResponse } from "../lib/errors";
+import { writeDenied } from "../lib/auth";
+import { ApiWarning, collectWarnings, marketWarnings, SkippedGame, warning } from "../lib/warnings";
+import { gameLines, loadBookLines, primaryMarket } from "../lib/providers";
+import { exportFilename, exportResponse, invalidFormatResponse, parseFormat, toCsv, toIcs } from "../lib/exports";
+import { applyOverride, DEFAULT_CONFIG, loadSavedConfigs, ModelConfig, ModelFallbacks, parseConfig, parseScenario, resolveConfig, saveConfig, Scenario, validConfigName } from "../lib/scenarios";
+import { GoalieQuality, goalieQualityFrom, loadRatings, matchupRatings, RatingsTable } from "../lib/ratings";
 
 // --- DATA SOURCES ---
-const ESPN_SCOREBOARD_URL = "https://site.api.espn.com/apis/site/v2/sports/hockey/nhl/scoreboard";
-const MONEYPUCK_TEAMS_URL = "https://moneypuck.com/moneypuck/playerData/seasonSummary/2024/regular/teams.csv";
-const MONEYPUCK_GOALIES_URL = "https://moneypuck.com/moneypuck/playerData/seasonSummary/2024/regular/goalies.csv";
-const NHL_SCHEDULE_URL = "https://api-web.nhle.com/v1/schedule/now";
-
-// --- CACHE ---
-let cachedTeamStats: any = null;
-let cachedGoalieStats: any = null;
-let cachedEspnData: any = null;
-let cachedStarterData: any = null;
-
-let lastStatsFetch = 0;
-let lastOddsFetch = 0;
-let lastStarterFetch = 0;
-
-const STATS_CACHE = 1000 * 60 * 60; // 1 Hour
-const ODDS_CACHE = 1000 * 60 * 5;   // 5 Minutes
-const STARTER_CACHE = 1000 * 60 * 15; // 15 Minutes
-
-// --- HELPER: SAFE NUMBER PARSER (The "Column Hunter") ---
-// Tries multiple column names. If one exists, it uses it.
-const getFloat = (row: any, keys: string[]) => {
-  for (const key of keys) {
-    if (row[key] !== undefined && row[key] !== null && row[key] !== "") {
-      const val = parseFloat(row[key]);
-      if (!isNaN(val)) return val;
+// MoneyPuck (teams + goalies), the ESPN scoreboard, the NHL schedule (starters) and the
+// odds providers (lib/providers: ESPN's books plus any configured feed).
+// Fetching and caching live in lib/sources and lib/cache; every loader takes the
+// request's `sources` list and records what it served (age, stale, fallback).
+interface MoneyPuckData { teams: CsvRow[]; goalies: CsvRow[] }
+
+// --- LOADERS ---
+// Blended mode tops up small current samples with prior data (lib/sources, lib/season).
+// Both inputs are cached, so the blend itself is recomputed per request.
+const loadMoneyPuck = async (season: number, type: GameType, blend = false, sources?: SourceMeta[]): Promise<MoneyPuckData> => {
+  const [teams, goalies] = await Promise.all([
+    loadSeasonCsv(season, type, "teams", blend, sources),
+    loadSeasonCsv(season, type, "goalies", blend, sources)
+  ]);
+  return { teams, goalies };
+};
+
+// --- ESPN EVENT -> SCHEDULE ENTRY ---
+// Home and away competitors (validateScoreboard flags events without them)
+const eventSides = (evt: EspnEvent) => {
+  const competition = evt.competitions![0];
+  const side = (homeAway: EspnCompetitor["homeAway"]) => competition.competitors!.find((c) => c.homeAway === homeAway)!;
+  return { competition, homeComp: side("home"), awayComp: side("away") };
+};
+
+const mapScheduleGame = (evt: EspnEvent): Game => {
+  const { homeComp, awayComp } = eventSides(evt);
+
+  return {
+    id: evt.id,
+    date: evt.date,
+    status: evt.status!.type!.shortDetail!,
+    homeTeam: {
+      name: homeComp.team!.displayName!,
+      code: normalizeTeamCode(homeComp.team!.abbreviation),
+      score: homeComp.score!,
+      logo: homeComp.team!.logo!
+    },
+    awayTeam: {
+      name: awayComp.team!.displayName!,
+      code: normalizeTeamCode(awayComp.team!.abbreviation),
+      score: awayComp.score!,
+      logo: awayComp.team!.logo!
     }
-  }
-  return 0;
+  };
 };
 
-// --- TEAM MAPPING HELPER ---
-const normalizeTeamCode = (input: string) => {
-  if (!input) return "UNK";
-  const map: Record<string, string> = {
-    "S.J": "SJS", "SJ": "SJS", "San Jose Sharks": "SJS",
-    "T.B": "TBL", "TB": "TBL", "Tampa Bay Lightning": "TBL",
-    "L.A": "LAK", "LA": "LAK", "Los Angeles Kings": "LAK",
-    "N.J": "NJD", "NJ": "NJD", "New Jersey Devils": "NJD",
-    "NYR": "NYR", "New York Rangers": "NYR", 
-    "NYI": "NYI", "New York Islanders": "NYI",
-    "VEG": "VGK", "VGK": "VGK", "Vegas Golden Knights": "VGK",
-    "MTL": "MTL", "Montreal Canadiens": "MTL",
-    "VAN": "VAN", "Vancouver Canucks": "VAN",
-    "TOR": "TOR", "Toronto Maple Leafs": "TOR",
-    "BOS": "BOS", "Boston Bruins": "BOS",
-    "BUF": "BUF", "Buffalo Sabres": "BUF",
-    "OTT": "OTT", "Ottawa Senators": "OTT",
-    "FLA": "FLA", "Florida Panthers": "FLA",
-    "DET": "DET", "Detroit Red Wings": "DET",
-    "PIT": "PIT", "Pittsburgh Penguins": "PIT",
-    "WSH": "WSH", "Washington Capitals": "WSH",
-    "PHI": "PHI", "Philadelphia Flyers": "PHI",
-    "CBJ": "CBJ", "Columbus Blue Jackets": "CBJ",
-    "CAR": "CAR", "Carolina Hurricanes": "CAR",
-    "CHI": "CHI", "Chicago Blackhawks": "CHI",
-    "NSH": "NSH", "Nashville Predators": "NSH",
-    "STL": "STL", "St. Louis Blues": "STL",
-    "MIN": "MIN", "Minnesota Wild": "MIN",
-    "WPG": "WPG", "Winnipeg Jets": "WPG",
-    "COL": "COL", "Colorado Avalanche": "COL",
-    "DAL": "DAL", "Dallas Stars": "DAL",
-    "ARI": "UTA", "UTA": "UTA", "Utah Hockey Club": "UTA",
-    "EDM": "EDM", "Edmonton Oilers": "EDM",
-    "CGY": "CGY", "Calgary Flames": "CGY",
-    "ANA": "ANA", "Anaheim Ducks": "ANA",
-    "SEA": "SEA", "Seattle Kraken": "SEA"
+// --- FATIGUE ---
+// Schedule factors for one side of a game (null when the ESPN range fetch failed)
+const loadFatigue = (date: string | undefined, sources: SourceMeta[]) =>
+  loadRecentGames(date, sources).catch((e) => {
+    console.log("Fatigue fetch failed", e);
+    return null;
+  });
+
+const sideFatigue = (recent: RecentGames | null, team: string, homeTeam: string) =>
+  recent ? teamFatigue(recent, team, homeTeam) : undefined;
+
+const fatigueWarnings = (recent: RecentGames | null): ApiWarning[] =>
+  recent ? [] : [warning("FATIGUE_UNAVAILABLE", "Recent schedule unavailable: rest and back-to-back factors left out")];
+
+// --- POWER RATINGS ---
+// Elo ratings going into the date (lib/ratings), null when the scoreboard history can't be loaded.
+// Every matchup and slate carries them; a cold start replays the season (SAVANT_STORE_DIR keeps it).
+const loadTeamRatings = (date: string | undefined, sources: SourceMeta[]) =>
+  loadRatings(date, sources).catch((e) => {
+    console.log("Ratings fetch failed", e);
+    return null;
+  });
+
+const sideRatings = (table: RatingsTable | null, home: string, away: string, goalies: GoalieQuality, homeStats: TeamStats | null, awayStats: TeamStats | null) =>
+  table ? matchupRatings(table, home, away, goalies, homeStats?.goalie.playerId ?? null, awayStats?.goalie.playerId ?? null) : null;
+
+const ratingsWarnings = (table: RatingsTable | null): ApiWarning[] =>
+  table ? [] : [warning("RATINGS_UNAVAILABLE", "Scoreboard history unavailable: power ratings left out")];
+
+// --- GOALIE LOOKUP ---
+// One row per goalie: MoneyPuck repeats each goalie per situation
+const teamGoalieRows = (data: MoneyPuckData, teamCode: string) =>
+  data.goalies.filter((g) => normalizeTeamCode(g.team) === teamCode && (!g.situation || g.situation === "all"));
+
+// --- STATS EXTRACTION (The Column Hunter) ---
+// Reads rows from loadMoneyPuck. `starter` is the team's entry from loadStarters for the game date,
+// `fatigue` the schedule factors from lib/fatigue (passed through to the model), `fallbacks` the
+// stand-ins for missing data (lib/scenarios).
+const getSavantStats = (data: MoneyPuckData, teamCode: string, requestedGoalie?: string, starter?: TeamStarter, fatigue?: TeamFatigue,
+  fallbacks: ModelFallbacks = DEFAULT_CONFIG.fallbacks): TeamStats | null => {
+  const teamRow = data.teams.find((row) => normalizeTeamCode(row.team) === teamCode && row.situation === "5on5");
+  const teamAllRow = data.teams.find((row) => normalizeTeamCode(row.team) === teamCode && row.situation === "all");
+  const ppRow = data.teams.find((row) => normalizeTeamCode(row.team) === teamCode && row.situation === "5on4");
+  const pkRow = data.teams.find((row) => normalizeTeamCode(row.team) === teamCode && row.situation === "4on5");
+
+  if (!teamRow) return null;
+
+  // --- GOALIE SELECTION ---
+  // A requested goalie (name or player ID) wins, then the listed starter (matched by NHL ID first).
+  // Only an unambiguous match is used; anything else falls through to the usage projection.
+  let starterStatus: string = "unknown";
+  const teamGoalies = teamGoalieRows(data, teamCode);
+  let goalieRow: CsvRow | null = null;
+
+  if (requestedGoalie) {
+      goalieRow = resolvePlayer(teamGoalies, requestedGoalie, ROW_FIELDS).match;
+      starterStatus = "requested";
+  } else if (starter?.goalie) {
+      goalieRow = resolvePlayer(teamGoalies, starter.goalie.name, ROW_FIELDS, starter.goalie.playerId).match;
+      starterStatus = starter.status;
+  }
+
+  // FALLBACK: Project by usage (#1 by Games Played, the backup on the 2nd night of a back-to-back)
+  if (!goalieRow && teamGoalies.length > 0) {
+      const backToBack = !!(starter?.backToBack || fatigue?.backToBack);
+      goalieRow = projectByUsage(teamGoalies, (g) => readFloat(g, GOALIE_COLUMNS.gamesPlayed), backToBack);
+      starterStatus = "projected-by-usage";
+  }
+
+  // MoneyPuck's goalie columns (icetime, xGoals, goals, ongoal) via lib/rows
+  let goalieStats: Pick<GoalieSummary, "gsax" | "gaa" | "svPct" | "name" | "playerId"> = { gsax: 0, gaa: 0, svPct: fallbacks.svPct, name: "Average Goalie", playerId: null };
+  if (goalieRow) {
+      const gTime = readFloat(goalieRow, GOALIE_COLUMNS.iceTime) || 1;
+      goalieStats = {
+          name: goalieRow.name,
+          playerId: goalieRow.playerId || null,
+          gsax: (goalieGsax(goalieRow) / gTime) * 3600,
+          gaa: (readFloat(goalieRow, GOALIE_COLUMNS.goalsAgainst) * 3600) / gTime,
+          svPct: goalieSvPct(goalieRow)
+      };
+  }
+
+  // --- STATS MAPPING (The Fix for "Generic Numbers") ---
+  const iceTimeAll = readFloat(teamAllRow, ['iceTime']) || 1;
+  const iceTime5v5 = readFloat(teamRow, ['iceTime']) || 1;
+
+  // Power plays = penalties taken by opponents (penaltiesAgainst), times shorthanded = own
+  // penalties (penaltiesFor). No chances or no special-teams row -> 0, which the model treats as unknown.
+  const ppChances = readFloat(teamAllRow, ['penaltiesAgainst']);
+  const pkChances = readFloat(teamAllRow, ['penaltiesFor']);
+
+  return {
+    name: teamCode,
+    // OFFENSE
+    gfPerGame: (readFloat(teamAllRow, ['goalsFor']) / iceTimeAll) * 3600,
+    xgfPercent: readFloat(teamRow, ['xGoalsPercentage']) * 100,
+    
+    // DEFENSE
+    gaPerGame: (readFloat(teamAllRow, ['goalsAgainst']) / iceTimeAll) * 3600,
+    xgaPer60: (readFloat(teamRow, ['xGoalsAgainst']) / iceTime5v5) * 3600,
+    
+    // SPECIAL TEAMS
+    // PP%: 5on4 goals for per power play. PK%: share of times shorthanded without a 4on5 goal against.
+    ppPercent: ppRow && ppChances > 0 ? (readFloat(ppRow, ['goalsFor']) / ppChances) * 100 : 0,
+    pkPercent: pkRow && pkChances > 0 ? 100 - (readFloat(pkRow, ['goalsAgainst']) / pkChances) * 100 : 0,
+    pimsPerGame: (readFloat(teamAllRow, ['penalityMinutesFor', 'penaltyMinutesFor', 'pim']) / (iceTimeAll / 3600)) || fallbacks.pimsPerGame,
+
+    // POSSESSION
+    // MoneyPuck uses 'unblockedShotAttempts' for Fenwick, 'shotAttempts' for Corsi
+    corsiPercent: readFloat(teamRow, ['corsiPercentage', 'shotAttemptsPercentage']) * 100,
+    faceoffPercent: readFloat(teamAllRow, ['faceOffWinPercentage', 'faceOffsWonPercentage']) * 100,
+    
+    // SHOOTING / QUALITY
+    shootingPercent: readFloat(teamRow, ['shootingPercentage', 'shootingPercentage5on5']) * 100,
+    hdcfPercent: (readFloat(teamRow, ['highDangerGoalsFor']) / (readFloat(teamRow, ['highDangerGoalsFor']) + readFloat(teamRow, ['highDangerGoalsAgainst']))) * 100 || 50,
+
+    // GOALIE
+    goalie: {
+      ...goalieStats,
+      status: starterStatus,
+      lastSeen: starterStatus === "confirmed" || starterStatus === "probable" ? starter?.lastSeen ?? null : null,
+      backToBack: starter?.backToBack ?? fatigue?.backToBack ?? null
+    },
+
+    // SCHEDULE (rest, back-to-back, workload, travel) -> goal-rate multipliers in the model
+    fatigue: fatigue || null
   };
-  return map[input] || input.substring(0, 3).toUpperCase();
 };
 
+// --- SCENARIOS ---
+// "backup": the team's goalie with the most games, other than the baseline's
+const backupGoalie = (data: MoneyPuckData, teamCode: string, baseline: GoalieSummary) => {
+  const others = teamGoalieRows(data, teamCode).filter((g) => baseline.playerId ? g.playerId !== baseline.playerId : g.name !== baseline.name);
+  const backup = others.sort((a, b) => readFloat(b, GOALIE_COLUMNS.gamesPlayed) - readFloat(a, GOALIE_COLUMNS.gamesPlayed))[0];
+  return backup ? String(backup.playerId || backup.name) : null;
+};
+
+// Scenario minus baseline, from the Poisson model (simulations would add noise)
+const scenarioDifference = (baseline: ReturnType<typeof predictMatchup>, scenario: ReturnType<typeof predictMatchup>) => ({
+  moneylineHome: parseFloat((scenario.moneyline.home - baseline.moneyline.home).toFixed(4)),
+  expectedGoals: {
+    home: parseFloat((scenario.expectedGoals.home - baseline.expectedGoals.home).toFixed(2)),
+    away: parseFloat((scenario.expectedGoals.away - baseline.expectedGoals.away).toFixed(2)),
+    total: parseFloat((scenario.expectedGoals.total - baseline.expectedGoals.total).toFixed(2))
+  }
+});
+
+// --- MODEL CONFIG ---
+// The request's config and scenario (lib/scenarios), or the response to send instead.
+// Called inside each mode's try, since a saved name means a store read.
+// A scenario compares one matchup against itself, so only the matchup modes take one.
+type RequestModel = { config: ModelConfig; info: { name: string | null } & ModelConfig; scenario: Scenario | null };
+
+const loadModel = async (configInput: unknown, scenarioInput: unknown, scenarioAllowed: boolean): Promise<RequestModel | { error: HandlerResponse }> => {
+  const model = await resolveConfig(configInput);
+  if (model.missing) {
+    return { error: errorResponse("CONFIG_NOT_FOUND", `No saved config "${model.missing}"`, { saved: Object.keys(await loadSavedConfigs()) }) };
+  }
+  const parsed = parseScenario(scenarioInput);
+  const problems = [...model.problems, ...parsed.problems];
+  if (!scenarioAllowed && scenarioInput !== undefined && scenarioInput !== null) problems.push("scenario only applies to a single matchup (home and away)");
+  if (problems.length) return { error: errorResponse("INVALID_PARAMETERS", "Invalid model config", { details: problems }) };
+  return { config: model.config, info: { name: model.name, ...model.config }, scenario: parsed.scenario };
+};
+
+// --- SIMULATION PARAMETERS ---
+// ?sims, ?seed and ?total (action=simulate). One that doesn't parse or is out of range is a 400:
+// a bad seed would quietly become a random run, a bad total the market's.
+const SIM_PARAMS = {
+  sims: { pattern: /^\d+$/, min: 1, max: MAX_SIMS, expected: `a whole number from 1 to ${MAX_SIMS}` },
+  seed: { pattern: /^\d+$/, min: 0, max: Number.MAX_SAFE_INTEGER, expected: "a whole number" },
+  total: { pattern: /^\d+(\.\d+)?$/, min: 0.5, max: 20, expected: "a number from 0.5 to 20" },
+};
+
+const parseSimParams = (input: Partial<Record<keyof typeof SIM_PARAMS, string>>) => {
+  const values: Partial<Record<keyof typeof SIM_PARAMS, number>> = {};
+  const problems: string[] = [];
+  (Object.keys(SIM_PARAMS) as (keyof typeof SIM_PARAMS)[]).forEach((name) => {
+    const raw = input[name];
+    if (raw === undefined) return;
+    const { pattern, min, max, expected } = SIM_PARAMS[name];
+    const value = Number(raw);
+    if (pattern.test(raw) && value >= min && value <= max) values[name] = value;
+    else problems.push(`${name} must be ${expected}, got "${raw}"`);
+  });
+  return { values, problems };
+};
+
+// --- REQUEST BODY ---
+// POST takes a JSON object: any query parameter as a field, plus `config` and `scenario`.
+// Body fields win over the query string.
+const CORS_PREFLIGHT = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization"
+};
+
+const readBody = (event: HandlerEvent): { body: Record<string, unknown> } | { error: string } => {
+  if (event.httpMethod !== "POST" || !event.body) return { body: {} };
+  try {
+    const body = JSON.parse(event.isBase64Encoded ? Buffer.from(event.body, "base64").toString("utf8") : event.body);
+    return body && typeof body === "object" && !Array.isArray(body) ? { body } : { error: "Body must be a JSON object" };
+  } catch (e) {
+    return { error: "Body is not valid JSON" };
+  }
+};
+
+const queryFields = (body: Record<string, unknown>) => Object.fromEntries(Object.entries(body)
+  .filter(([, value]) => ["string", "number", "boolean"].includes(typeof value))
+  .map(([key, value]) => [key, String(value)]));
+
 export const handler: Handler = async (event) => {
-  const { home, away, homeGoalie, awayGoalie, action, date } = event.queryStringParameters || {};
-  const currentTime = Date.now();
+  if (event.httpMethod === "OPTIONS") return { statusCode: 204, headers: CORS_PREFLIGHT, body: "" };
+  const request = readBody(event);
+  if ("error" in request) return errorResponse("INVALID_PARAMETERS", "Invalid request body", { details: [request.error] });
+  const body = request.body;
 
-  const axiosConfig = {
-    headers: {
-      'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-      'Accept': 'application/json,text/csv'
-    }
-  };
+  const params: Record<string, string | undefined> = { ...(event.queryStringParameters || {}), ...queryFields(body) };
+  const { home, away, homeGoalie, awayGoalie, action, date, sims, seed, total, kellyCap, season, type, blend, from, to, team, format, config } = params;
+
+  // Which MoneyPuck summary to use (defaults to the current regular season)
+  const seasonParams = resolveSeasonParams(season, type, date);
+  if (seasonParams.errors.length) {
+    return errorResponse("INVALID_PARAMETERS", "Invalid date or season parameters", { details: seasonParams.errors });
+  }
+  const useBlend = blend === "true" || blend === "1";
+  const seasonInfo = { season: seasonParams.season, type: seasonParams.type, blended: useBlend };
 
  // ==========================================
   // MODE A: SCHEDULE (Fetch Games List)
   // ==========================================
+  // ?format=csv downloads the games, ?format=ics a calendar with starters and lines (see lib/exports)
   if (action === "schedule") {
+    const exportFormat = parseFormat(format);
+    if (!exportFormat) return invalidFormatResponse(format!);
+
+    const sources: SourceMeta[] = [];
     try {
       // FIX: Strip dashes from date (2025-11-28 -> 20251128)
       // ESPN requires compact YYYYMMDD format.
       const cleanDate = date ? date.replace(/-/g, "") : "";
-      
-      const url = cleanDate ? `${ESPN_SCOREBOARD_URL}?dates=${cleanDate}` : ESPN_SCOREBOARD_URL;
-      
-      const espnRes = await axios.get(url, axiosConfig);
-      const events = espnRes.data.events || [];
-
-      const games = events.map((evt: any) => {
-        const competition = evt.competitions[0];
-        const homeComp = competition.competitors.find((c: any) => c.homeAway === 'home');
-        const awayComp = competition.competitors.find((c: any) => c.homeAway === 'away');
-        
-        return {
-          id: evt.id,
+
+      const scoreboard = await loadScoreboard({ date: cleanDate, type: type ? seasonParams.type : undefined }, sources);
+      const events = scoreboard.events || [];
+
+      const games = events.map(mapScheduleGame);
+
+      if (exportFormat === "csv") {
+        return exportResponse("csv", exportFilename("nhl-schedule", date, "csv"), toCsv(games));
+      }
+      if (exportFormat === "ics") {
+        const [starters, { lines }] = await Promise.all([
+          loadStarters(date, sources),
+          loadBookLines({ date, scoreboard }, sources)
+        ]);
+        const calendar = toIcs("NHL schedule", games.map((game: Game) => ({
+          id: game.id,
+          start: game.date,
+          status: game.status,
+          home: game.homeTeam,
+          away: game.awayTeam,
+          market: primaryMarket(gameLines(lines, game.homeTeam.code, game.awayTeam.code))
+        })), starters);
+        return exportResponse("ics", exportFilename("nhl-schedule", date, "ics"), calendar);
+      }
+
+      return {
+        statusCode: 200,
+        headers: { "Content-Type": "application/json", "Access-Control-Allow-Origin": "*" },
+        body: JSON.stringify({ games, count: games.length, dateUsed: cleanDate || "Default", warnings: collectWarnings(sources), sources }),
+      };
+    } catch (error) {
+      return failureResponse(error, "Schedule Fetch Failed", sources);
+    }
+  }
+
+  // ==========================================
+  // MODE B: EDGES (Model vs. Market for a whole slate)
+  // ==========================================
+  if (action === "edges") {
+    const cap = parseKellyCap(kellyCap);
+    if (cap === null) {
+      return errorResponse("INVALID_PARAMETERS", "Invalid kellyCap", { details: [`kellyCap must be above 0 and at most 1, got "${kellyCap}"`] });
+    }
+
+    const sources: SourceMeta[] = [];
+    try {
+      const model = await loadModel(body.config ?? config, body.scenario, false);
+      if ("error" in model) return model.error;
+      const { weights, fallbacks } = model.config;
+
+      const [data, starters, scoreboard, recent] = await Promise.all([
+        loadMoneyPuck(seasonParams.season, seasonParams.type, useBlend, sources),
+        loadStarters(date, sources),
+        loadScoreboard({ date }, sources),
+        loadFatigue(date, sources)
+      ]);
+      const { lines, warnings: oddsWarnings } = await loadBookLines({ date, scoreboard }, sources);
+
+      const games: EdgeGame[] = [];
+      const skipped: SkippedGame[] = [];
+      const warnings = [...oddsWarnings, ...fatigueWarnings(recent)];
+      (scoreboard.events || []).forEach((evt) => {
+        const { homeComp, awayComp } = eventSides(evt);
+        const homeCode = normalizeTeamCode(homeComp.team?.abbreviation);
+        const awayCode = normalizeTeamCode(awayComp.team?.abbreviation);
+
+        const homeStats = getSavantStats(data, homeCode, undefined, starters[homeCode], sideFatigue(recent, homeCode, homeCode), fallbacks);
+        const awayStats = getSavantStats(data, awayCode, undefined, starters[awayCode], sideFatigue(recent, awayCode, homeCode), fallbacks);
+        if (!homeStats || !awayStats) {
+          skipped.push({ gameId: evt.id, home: homeCode, away: awayCode, reason: "No stats found" });
+          return;
+        }
+
+        // Best price per side across books, against the consensus no-vig line
+        const odds = gameLines(lines, homeCode, awayCode);
+        warnings.push(...marketWarnings(evt.id, `${awayCode}@${homeCode}`, primaryMarket(odds)));
+        games.push({
+          gameId: evt.id,
           date: evt.date,
-          status: evt.status.type.shortDetail, 
-          homeTeam: {
-            name: homeComp.team.displayName,
-            code: normalizeTeamCode(homeComp.team.abbreviation),
-            score: homeComp.score,
-            logo: homeComp.team.logo
-          },
-          awayTeam: {
-            name: awayComp.team.displayName,
-            code: normalizeTeamCode(awayComp.team.abbreviation),
-            score: awayComp.score,
-            logo: awayComp.team.logo
-          }
-        };
+          home: homeCode,
+          away: awayCode,
+          lines: odds,
+          modelHome: predictMatchup(homeStats, awayStats, weights).moneyline.home
+        });
       });
 
+      const sides = findEdges(games, cap);
       return {
         statusCode: 200,
         headers: { "Content-Type": "application/json", "Access-Control-Allow-Origin": "*" },
-        body: JSON.stringify({ games, count: games.length, dateUsed: cleanDate || "Default" }),
+        body: JSON.stringify({
+          date: date || "Default",
+          season: seasonInfo,
+          config: model.info,
+          kellyCap: cap,
+          count: sides.length,
+          sides,
+          skipped,
+          warnings: collectWarnings(sources, warnings),
+          sources
+        }),
       };
     } catch (error) {
-      return { statusCode: 500, body: JSON.stringify({ error: "Schedule Fetch Failed", details: String(error) }) };
+      return failureResponse(error, "Edge Finder Failed", sources);
     }
   }
 
-  // --- 2. FULL GAME STATS MODE ---
-  if (!home || !away) return { statusCode: 400, body: "Missing parameters" };
+  // ==========================================
+  // MODE C: TEAMS (Registry: codes, names, divisions, timezones)
+  // ==========================================
+  if (action === "teams") {
+    const headers: Record<string, string> = { "Content-Type": "application/json", "Access-Control-Allow-Origin": "*", "Cache-Control": "public, max-age=86400" };
+    return {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify({ count: TEAMS.length, teams: TEAMS }),
+    };
+  }
 
-  const targetHome = normalizeTeamCode(home);
-  const targetAway = normalizeTeamCode(away);
+  // ==========================================
+  // MODE D: SLATE (Full matchup analysis for every game on a date)
+  // ==========================================
+  // Each upstream (ESPN board, MoneyPuck, NHL starters) is hit once for the whole slate.
+  if (action === "slate") {
+    const sources: SourceMeta[] = [];
+    try {
+      const model = await loadModel(body.config ?? config, body.scenario, false);
+      if ("error" in model) return model.error;
+      const { weights, fallbacks } = model.config;
 
-  try {
-    // A. FETCH MONEYPUCK
-    if (!cachedTeamStats || (currentTime - lastStatsFetch > STATS_CACHE)) {
-      console.log("Fetching MoneyPuck...");
-      const [mpTeamsRes, mpGoaliesRes] = await Promise.all([
-        axios.get(MONEYPUCK_TEAMS_URL, axiosConfig),
-        axios.get(MONEYPUCK_GOALIES_URL, axiosConfig)
+      const [data, scoreboard, starters, recent] = await Promise.all([
+        loadMoneyPuck(seasonParams.season, seasonParams.type, useBlend, sources),
+        loadScoreboard({ date }, sources),
+        loadStarters(date, sources),
+        loadFatigue(date, sources)
       ]);
-      cachedTeamStats = parse(mpTeamsRes.data, { columns: true, skip_empty_lines: true });
-      cachedGoalieStats = parse(mpGoaliesRes.data, { columns: true, skip_empty_lines: true });
-      lastStatsFetch = currentTime;
-    }
+      const [{ lines, warnings: oddsWarnings }, table] = await Promise.all([
+        loadBookLines({ date, scoreboard }, sources),
+        loadTeamRatings(date, sources)
+      ]);
+      const goalies = goalieQualityFrom(data.goalies);
 
-    // B. FETCH STARTERS (NHL API)
-    if (!cachedStarterData || (currentTime - lastStarterFetch > STARTER_CACHE)) {
-      try {
-        const nhlRes = await axios.get(NHL_SCHEDULE_URL);
-        const todayGames = nhlRes.data.gameWeek?.[0]?.games || [];
-        cachedStarterData = {};
-        todayGames.forEach((game: any) => {
-           const mapGoalie = (g: any) => ({ name: `${g.firstName.default} ${g.lastName.default}`, status: "confirmed" });
-           if(game.awayTeam.startingGoalie) cachedStarterData[normalizeTeamCode(game.awayTeam.abbrev)] = mapGoalie(game.awayTeam.startingGoalie);
-           if(game.homeTeam.startingGoalie) cachedStarterData[normalizeTeamCode(game.homeTeam.abbrev)] = mapGoalie(game.homeTeam.startingGoalie);
-        });
-        lastStarterFetch = currentTime;
-      } catch (e) { console.log("Starter fetch failed"); }
+      const warnings = [...oddsWarnings, ...fatigueWarnings(recent), ...ratingsWarnings(table)];
+      const games = (scoreboard.events || []).map((evt) => {
+        const game = mapScheduleGame(evt);
+        const books = gameLines(lines, game.homeTeam.code, game.awayTeam.code);
+        const odds = primaryMarket(books);
+        warnings.push(...marketWarnings(evt.id, `${game.awayTeam.code}@${game.homeTeam.code}`, odds));
+        const homeStats = getSavantStats(data, game.homeTeam.code, undefined, starters[game.homeTeam.code],
+          sideFatigue(recent, game.homeTeam.code, game.homeTeam.code), fallbacks);
+        const awayStats = getSavantStats(data, game.awayTeam.code, undefined, starters[game.awayTeam.code],
+          sideFatigue(recent, game.awayTeam.code, game.homeTeam.code), fallbacks);
+        return {
+          ...game,
+          home: homeStats,
+          away: awayStats,
+          odds,
+          lines: books,
+          ratings: sideRatings(table, game.homeTeam.code, game.awayTeam.code, goalies, homeStats, awayStats),
+          prediction: homeStats && awayStats ? predictMatchup(homeStats, awayStats, weights) : null
+        };
+      });
+
+      return {
+        statusCode: 200,
+        headers: { "Content-Type": "application/json", "Access-Control-Allow-Origin": "*" },
+        body: JSON.stringify({ date: date || "Default", season: seasonInfo, config: model.info, count: games.length, games, warnings: collectWarnings(sources, warnings), sources }),
+      };
+    } catch (error) {
+      return failureResponse(error, "Slate Fetch Failed", sources);
     }
+  }
 
-    // C. FETCH ODDS (ESPN)
-    let gameOdds = null;
-    if (!cachedEspnData || (currentTime - lastOddsFetch > ODDS_CACHE)) {
-       try {
-         const espnRes = await axios.get(ESPN_SCOREBOARD_URL, axiosConfig);
-         cachedEspnData = espnRes.data;
-         lastOddsFetch = currentTime;
-       } catch (e) { console.log("Odds fetch failed"); }
+  // ==========================================
+  // MODE E: BACKTEST (Replay a past date range against final scores)
+  // ==========================================
+  // Inputs are rebuilt as of the day before each game (see lib/backtest).
+  // Without ?season= each game uses the season its date falls in.
+  if (action === "backtest") {
+    const fromDate = parseDateParam(from);
+    const toDate = parseDateParam(to);
+    const problems: string[] = [];
+    if (!fromDate) problems.push(`Invalid or missing from "${from ?? ""}" (use YYYY-MM-DD)`);
+    if (!toDate) problems.push(`Invalid or missing to "${to ?? ""}" (use YYYY-MM-DD)`);
+    if (fromDate && toDate && fromDate > toDate) problems.push("from must not be after to");
+    if (fromDate && toDate && datesBetween(fromDate, toDate).length > MAX_BACKTEST_DAYS) problems.push(`Range is limited to ${MAX_BACKTEST_DAYS} days`);
+    if (problems.length) {
+      return errorResponse("INVALID_PARAMETERS", "Invalid backtest range", { details: problems });
     }
-    if (cachedEspnData && cachedEspnData.events) {
-      const game = cachedEspnData.events.find((evt: any) => {
-        const competitors = evt.competitions[0].competitors;
-        const teamA = normalizeTeamCode(competitors[0].team.abbreviation);
-        const teamB = normalizeTeamCode(competitors[1].team.abbreviation);
-        return (teamA === targetHome && teamB === targetAway) || (teamA === targetAway && teamB === targetHome);
-      });
-      if (game) {
-        const comp = game.competitions?.[0];
-        const oddsObj = comp?.odds?.[0] || null;
-        if (oddsObj) {
-          gameOdds = { source: "ESPN", line: oddsObj.details || "N/A", total: oddsObj.overUnder || 6.5 };
+
+    const sources: SourceMeta[] = [];
+    try {
+      const model = await loadModel(body.config ?? config, body.scenario, false);
+      if ("error" in model) return model.error;
+      const { weights, fallbacks } = model.config;
+
+      const logs: Record<string, Promise<CsvRow[]>> = {};
+      const teamLog = (code: string) => (logs[code] = logs[code] || loadTeamGameLog(seasonParams.type, code, sources));
+
+      // Every day's board at once; the team logs load as the games need them
+      const days = datesBetween(fromDate!, toDate!);
+      const boards = await Promise.all(days.map((day) => loadScoreboard({ date: day, type: type ? seasonParams.type : undefined }, sources)));
+
+      const games: BacktestGame[] = [];
+      const skipped: SkippedGame[] = [];
+      for (const [i, day] of days.entries()) {
+        const board = boards[i];
+        const gameSeason = season ? seasonParams.season : currentSeason(parseDateParam(day)!);
+
+        for (const evt of board.events || []) {
+          const { competition, homeComp, awayComp } = eventSides(evt);
+          const homeCode = normalizeTeamCode(homeComp.team?.abbreviation);
+          const awayCode = normalizeTeamCode(awayComp.team?.abbreviation);
+          if (!evt.status?.type?.completed) {
+            skipped.push({ gameId: evt.id, date: day, home: homeCode, away: awayCode, reason: "Not final" });
+            continue;
+          }
+
+          const [homeInputs, awayInputs] = await Promise.all([homeCode, awayCode].map(async (code) =>
+            teamInputsAsOf(await teamLog(code), code, gameSeason, day)));
+          if (!homeInputs || !awayInputs) {
+            skipped.push({ gameId: evt.id, date: day, home: homeCode, away: awayCode, reason: "No prior games this season" });
+            continue;
+          }
+          const asOf: MoneyPuckData = {
+            teams: [...homeInputs.teams, ...awayInputs.teams],
+            goalies: [homeInputs.goalie, awayInputs.goalie]
+          };
+          const homeStats = getSavantStats(asOf, homeCode, undefined, undefined, undefined, fallbacks);
+          const awayStats = getSavantStats(asOf, awayCode, undefined, undefined, undefined, fallbacks);
+          if (!homeStats || !awayStats) {
+            skipped.push({ gameId: evt.id, date: day, home: homeCode, away: awayCode, reason: "No stats found" });
+            continue;
+          }
+
+          // Stored closing line first, then whatever the archived board still carries
+          const stored = await loadClosingLine(evt.id);
+          const boardMarket = parseEspnMarket(competition.odds?.[0] || null);
+          let closing: BacktestGame["closing"] = null;
+          let closingSource: BacktestGame["closingSource"] = null;
+          if (stored && stored.moneyline.home !== null && stored.moneyline.away !== null) {
+            closing = { home: stored.moneyline.home, away: stored.moneyline.away };
+            closingSource = "stored";
+          } else if (boardMarket.moneyline.home !== null && boardMarket.moneyline.away !== null) {
+            closing = { home: boardMarket.moneyline.home, away: boardMarket.moneyline.away };
+            closingSource = "espn-board";
+          }
+
+          games.push({
+            gameId: evt.id,
+            date: day,
+            home: homeCode,
+            away: awayCode,
+            homeScore: parseInt(homeComp.score!),
+            awayScore: parseInt(awayComp.score!),
+            modelHome: predictMatchup(homeStats, awayStats, weights).moneyline.home,
+            closing,
+            closingSource
+          });
         }
       }
+
+      return {
+        statusCode: 200,
+        headers: { "Content-Type": "application/json", "Access-Control-Allow-Origin": "*" },
+        body: JSON.stringify({
+          from: from,
+          to: to,
+          season: { season: season ? seasonParams.season : "by-date", type: seasonParams.type },
+          config: model.info,
+          metrics: scoreBacktest(games),
+          games: games.map(describeGame),
+          skipped,
+          warnings: collectWarnings(sources),
+          sources
+        }),
+      };
+    } catch (error) {
+      return failureResponse(error, "Backtest Failed", sources);
     }
+  }
 
-    // D. EXTRACT STATS LOGIC (The Column Hunter)
-    const getSavantStats = (teamCode: string, requestedGoalie?: string) => {
-      const teamRow = cachedTeamStats.find((row: any) => normalizeTeamCode(row.team) === teamCode && row.situation === "5on5");
-      const teamAllRow = cachedTeamStats.find((row: any) => normalizeTeamCode(row.team) === teamCode && row.situation === "all");
+  // ==========================================
+  // MODE F: LIVE (In-game win probability from period, clock and score)
+  // ==========================================
+  // Pregame strength comes from the same stats as the matchup; ?home=&away= narrows to one game.
+  if (action === "live") {
+    const unknown = [home, away].filter((input) => input && !resolveTeam(input)) as string[];
+    if (unknown.length) return unknownTeamResponse(unknown);
 
-      if (!teamRow) return null;
+    const sources: SourceMeta[] = [];
+    try {
+      const model = await loadModel(body.config ?? config, body.scenario, false);
+      if ("error" in model) return model.error;
+      const { weights, fallbacks } = model.config;
 
-      // --- GOALIE SELECTION ---
-      let targetGoalieName = requestedGoalie;
-      let starterStatus = "Unconfirmed";
+      const [data, scoreboard, starters, recent] = await Promise.all([
+        loadMoneyPuck(seasonParams.season, seasonParams.type, useBlend, sources),
+        loadScoreboard({ date }, sources),
+        loadStarters(date, sources),
+        loadFatigue(date, sources)
+      ]);
+      const wanted = [resolveTeam(home)?.code, resolveTeam(away)?.code].filter(Boolean);
 
-      if (!targetGoalieName && cachedStarterData && cachedStarterData[teamCode]) {
-          targetGoalieName = cachedStarterData[teamCode].name;
-          starterStatus = "Confirmed";
-      }
+      const warnings = fatigueWarnings(recent);
+      const games = await Promise.all((scoreboard.events || [])
+        .map((evt) => ({ evt, game: mapScheduleGame(evt) }))
+        .filter(({ game }) => wanted.every((code) => code === game.homeTeam.code || code === game.awayTeam.code))
+        .map(async ({ evt, game }) => {
+          const homeStats = getSavantStats(data, game.homeTeam.code, undefined, starters[game.homeTeam.code],
+          sideFatigue(recent, game.homeTeam.code, game.homeTeam.code), fallbacks);
+          const awayStats = getSavantStats(data, game.awayTeam.code, undefined, starters[game.awayTeam.code],
+          sideFatigue(recent, game.awayTeam.code, game.homeTeam.code), fallbacks);
+          const state = eventLiveState(evt);
+          if (!homeStats || !awayStats) return { ...game, state, live: null, timeline: [] };
 
-      const teamGoalies = cachedGoalieStats.filter((g: any) => normalizeTeamCode(g.team) === teamCode);
-      let goalieRow = null;
+          const rates = matchupRates(homeStats, awayStats, weights);
+          const playoffs = evt.season?.type === 3 || seasonParams.type === "playoffs";
+          const pregame = predictMatchup(homeStats, awayStats, weights).moneyline;
+          const timeline = winProbabilityTimeline(rates, await loadLiveStates(evt.id), playoffs);
+          if (unreadableClock(state)) {
+            warnings.push(warning("LIVE_CLOCK_UNREADABLE", `Clock "${state.clock}" for ${game.awayTeam.code}@${game.homeTeam.code} can't be read: live odds left out`, { game: evt.id }));
+            return { ...game, state, pregame, live: null, timeline };
+          }
+          return { ...game, state, pregame, live: liveWinProbability(rates, state, playoffs), timeline };
+        }));
 
-      if (targetGoalieName) {
-          goalieRow = teamGoalies.find((g: any) => g.name.toLowerCase().includes(targetGoalieName!.toLowerCase().split(" ").pop()!));
+      // Asked for a team that isn't playing on the date
+      if (wanted.length && !games.length) {
+        return errorResponse("NO_GAME_FOUND", `No game for ${wanted.join(" / ")} on ${date || "today"}`, { sources });
       }
 
-      // FALLBACK: Pick #1 Goalie by Games Played (Avoids Fleury if Gustavsson has more GP)
-      if (!goalieRow && teamGoalies.length > 0) {
-          teamGoalies.sort((a: any, b: any) => getFloat(b, ['gamesPlayed', 'games_played']) - getFloat(a, ['gamesPlayed', 'games_played']));
-          goalieRow = teamGoalies[0];
-          starterStatus = "Projected #1";
-      }
+      return {
+        statusCode: 200,
+        headers: { "Content-Type": "application/json", "Access-Control-Allow-Origin": "*" },
+        body: JSON.stringify({ date: date || "Default", season: seasonInfo, config: model.info, count: games.length, games, warnings: collectWarnings(sources, warnings), sources }),
+      };
+    } catch (error) {
+      return failureResponse(error, "Live Fetch Failed", sources);
+    }
+  }
 
-      let goalieStats = { gsax: 0, gaa: 0, svPct: 0.900, name: "Average Goalie" };
-      if (goalieRow) {
-          const gTime = getFloat(goalieRow, ['iceTime', 'timeOnIce']) || 1;
-          goalieStats = {
-              name: goalieRow.name,
-              gsax: (getFloat(goalieRow, ['goalsSavedAboveExpected', 'xGoalsSaved']) / gTime) * 3600,
-              gaa: (getFloat(goalieRow, ['goalsAgainst']) * 3600) / gTime,
-              svPct: getFloat(goalieRow, ['savePercentage'])
-          };
+  // ==========================================
+  // MODE G: RATINGS (Elo power ratings going into a date, with each team's game history)
+  // ==========================================
+  // ?team= narrows to one team. Goalie adjustments come from the starters' game logs (lib/ratings).
+  if (action === "ratings") {
+    const wanted = team ? resolveTeam(team) : null;
+    if (team && !wanted) return unknownTeamResponse([team]);
+
+    const sources: SourceMeta[] = [];
+    try {
+      const table = await loadRatings(date, sources);
+      const ratings = Object.values(table.teams)
+        .sort((a, b) => b.rating - a.rating)
+        .map((entry, i) => ({ rank: i + 1, ...entry }))
+        .filter((entry) => !wanted || entry.team === wanted.code);
+
+      return {
+        statusCode: 200,
+        headers: { "Content-Type": "application/json", "Access-Control-Allow-Origin": "*" },
+        body: JSON.stringify({
+          date: table.date,
+          season: table.season,
+          through: table.through,
+          count: ratings.length,
+          ratings,
+          warnings: collectWarnings(sources),
+          sources
+        }),
+      };
+    } catch (error) {
+      return failureResponse(error, "Ratings Failed", sources);
+    }
+  }
+
+  // ==========================================
+  // MODE H: CONFIGS (Saved model configs, see lib/scenarios)
+  // ==========================================
+  // GET lists them with the defaults; POST { name, description?, config, overwrite? } saves one
+  // (admin token required, see lib/auth; an existing name needs overwrite: true).
+  if (action === "configs") {
+    try {
+      if (event.httpMethod === "POST") {
+        const denied = writeDenied(event.headers);
+        if (denied) return errorResponse("UNAUTHORIZED", "Admin token required", { details: [denied] });
+        if (!validConfigName(body.name)) {
+          return errorResponse("INVALID_PARAMETERS", "Invalid config name", { details: ["name must be 1-40 letters, digits, - or _"] });
+        }
+        const parsed = parseConfig(body.config ?? {});
+        if (parsed.problems.length) return errorResponse("INVALID_PARAMETERS", "Invalid model config", { details: parsed.problems });
+        const result = await saveConfig(body.name, parsed.config, typeof body.description === "string" ? body.description : null, body.overwrite === true);
+        if ("error" in result) {
+          return errorResponse("CONFIG_EXISTS", "Config already exists", { details: [`${result.error}; send overwrite: true to replace it`], existing: result.existing });
+        }
+        return {
+          statusCode: 201,
+          headers: { "Content-Type": "application/json", "Access-Control-Allow-Origin": "*" },
+          body: JSON.stringify({ saved: result.saved }),
+        };
       }
+      const configs = Object.values(await loadSavedConfigs()).sort((a, b) => a.name.localeCompare(b.name));
+      return {
+        statusCode: 200,
+        headers: { "Content-Type": "application/json", "Access-Control-Allow-Origin": "*", "Cache-Control": "no-store" },
+        body: JSON.stringify({ defaults: DEFAULT_CONFIG, count: configs.length, configs }),
+      };
+    } catch (error) {
+      return failureResponse(error, "Config Store Failed");
+    }
+  }
+
+  // --- 2. FULL GAME STATS MODE ---
+  if (!home || !away) {
+    return errorResponse("MISSING_PARAMETERS", "Missing parameters", { missing: [!home && "home", !away && "away"].filter(Boolean) });
+  }
+
+  // User input must resolve to a real team; no guessing from the first three letters
+  const homeTeam = resolveTeam(home);
+  const awayTeam = resolveTeam(away);
+  if (!homeTeam || !awayTeam) {
+    return unknownTeamResponse([!homeTeam && home, !awayTeam && away].filter(Boolean) as string[]);
+  }
+  const targetHome = homeTeam.code;
+  const targetAway = awayTeam.code;
+
+  const simParams = parseSimParams(action === "simulate" ? { sims, seed, total } : {});
+  if (simParams.problems.length) {
+    return errorResponse("INVALID_PARAMETERS", "Invalid simulation parameters", { details: simParams.problems });
+  }
+
+  const sources: SourceMeta[] = [];
+  try {
+    // Model config (saved name or inline settings) and what-if overrides (lib/scenarios)
+    const model = await loadModel(body.config ?? config, body.scenario, true);
+    if ("error" in model) return model.error;
+    const { scenario } = model;
+    const { weights, fallbacks } = model.config;
+    const configInfo = model.info;
 
-      // --- STATS MAPPING (The Fix for "Generic Numbers") ---
-      const iceTimeAll = getFloat(teamAllRow, ['iceTime']) || 1;
-      const iceTime5v5 = getFloat(teamRow, ['iceTime']) || 1;
+    // A. FETCH SOURCES
+    // Two parallel rounds: everything independent, then the lines (priced off the board) and ratings
+    const [data, starters, recent, board] = await Promise.all([
+      loadMoneyPuck(seasonParams.season, seasonParams.type, useBlend, sources),
+      loadStarters(date, sources),
+      loadFatigue(date, sources),
+      loadScoreboard({ date }, sources).catch((e) => {
+        console.log("Odds fetch failed", e);
+        return null;
+      })
+    ]);
 
+    // B. RESOLVE REQUESTED GOALIES (query and scenario)
+    // A name that matches nobody, or more than one goalie, is an error listing the candidates
+    const goalieQueries: [string | undefined, string][] = [
+      [homeGoalie, targetHome], [awayGoalie, targetAway], [scenario?.home?.goalie, targetHome], [scenario?.away?.goalie, targetAway]
+    ];
+    const unresolved = goalieQueries
+      .filter(([query]) => !!query && query.toLowerCase() !== "backup")
+      .map(([query, team]) => ({ team, rows: teamGoalieRows(data, team), ...resolvePlayer(teamGoalieRows(data, team), query!, ROW_FIELDS) }))
+      .filter((m) => m.status !== "matched");
+    if (unresolved.length) {
+      const ambiguous = unresolved.some((m) => m.status === "ambiguous");
+      return errorResponse(ambiguous ? "AMBIGUOUS_GOALIE" : "GOALIE_NOT_FOUND", ambiguous ? "Ambiguous goalie" : "Goalie not found", {
+        goalies: unresolved.map((m) => ({
+          team: m.team,
+          query: m.query,
+          status: m.status,
+          // Not found -> everyone on the team, so the caller can pick
+          candidates: describeCandidates(m.status === "ambiguous" ? m.candidates : m.rows, ROW_FIELDS)
+        })),
+        sources
+      });
+    }
+
+    // C. MATCH ODDS (every provider, see lib/providers), ratings fetched alongside
+    // The game may be listed either way round
+    const [{ lines, warnings: providerWarnings }, table] = await Promise.all([
+      loadBookLines({ date, scoreboard: board }, sources),
+      loadTeamRatings(date, sources)
+    ]);
+    let books = gameLines(lines, targetHome, targetAway);
+    if (!books.books.length) books = gameLines(lines, targetAway, targetHome);
+    let gameOdds: MatchupOdds | null = null;
+    if (books.books.length) {
+      // Flag when no book has a total, so the fallback total isn't mistaken for a market number
+      const totals = books.books.filter((m) => m.total.line !== null);
+      gameOdds = {
+        source: books.books[0].source,
+        line: books.books[0].details || "N/A",
+        total: books.consensus.total ?? fallbacks.total,
+        totalSource: totals.length > 1 ? "Consensus" : totals[0]?.source ?? "Default"
+      };
+    }
+
+    const homeStats = getSavantStats(data, targetHome, homeGoalie, starters[targetHome], sideFatigue(recent, targetHome, targetHome), fallbacks);
+    const awayStats = getSavantStats(data, targetAway, awayGoalie, starters[targetAway], sideFatigue(recent, targetAway, targetHome), fallbacks);
+    const ratings = sideRatings(table, targetHome, targetAway, goalieQualityFrom(data.goalies), homeStats, awayStats);
+    const odds: MatchupOdds = gameOdds || { source: "Not Found", line: "OFF", total: fallbacks.total, totalSource: "Default" };
+
+    // What the response had to do without
+    const label = `${targetAway}@${targetHome}`;
+    const oddsWarnings: ApiWarning[] = [];
+    if (!gameOdds) oddsWarnings.push(warning("ODDS_NOT_FOUND", `No odds for ${label}`));
+    if (odds.totalSource === "Default") oddsWarnings.push(warning("TOTAL_DEFAULTED", `No market total for ${label}, defaulted to ${odds.total}`));
+    const warnings = [...providerWarnings, ...oddsWarnings, ...fatigueWarnings(recent), ...ratingsWarnings(table)];
+
+    // D. SCENARIO (the same matchup with the overrides on top)
+    // Each side re-reads its stats with the scenario's goalie, then takes the stat changes
+    let scenarioStats: { home: TeamStats; away: TeamStats; weights: typeof weights } | null = null;
+    if (scenario) {
+      if (!homeStats || !awayStats) {
+        return errorResponse("NO_STATS", "No stats found", { missing: [!homeStats && targetHome, !awayStats && targetAway].filter(Boolean), sources });
+      }
+      const sides = ([["home", targetHome, homeStats, homeGoalie], ["away", targetAway, awayStats, awayGoalie]] as const).map(([side, code, stats, requested]) => {
+        const override = scenario[side];
+        const query = override?.goalie?.toLowerCase() === "backup" ? backupGoalie(data, code, stats.goalie) : override?.goalie ?? requested;
+        const fatigue = sideFatigue(recent, code, targetHome);
+        return { code, query, stats: query === null ? null : applyOverride(getSavantStats(data, code, query, starters[code], fatigue, fallbacks)!, override) };
+      });
+      const noBackup = sides.filter((side) => !side.stats);
+      if (noBackup.length) {
+        return errorResponse("GOALIE_NOT_FOUND", "No backup goalie", {
+          goalies: noBackup.map((side) => ({ team: side.code, query: "backup", status: "not-found", candidates: describeCandidates(teamGoalieRows(data, side.code), ROW_FIELDS) })),
+          sources
+        });
+      }
+      scenarioStats = { home: sides[0].stats!, away: sides[1].stats!, weights: { ...weights, ...scenario.weights } };
+    }
+    // Baseline vs scenario, Poisson model; the simulation (if any) is added by the mode
+    const compare = (extra: Record<string, unknown> = {}) => {
+      if (!scenarioStats || !homeStats || !awayStats) return {};
+      const prediction = predictMatchup(scenarioStats.home, scenarioStats.away, scenarioStats.weights);
       return {
-        name: teamCode,
-        // OFFENSE
-        gfPerGame: (getFloat(teamAllRow, ['goalsFor']) / iceTimeAll) * 3600,
-        xgfPercent: getFloat(teamRow, ['xGoalsPercentage']) * 100,
-        
-        // DEFENSE
-        gaPerGame: (getFloat(teamAllRow, ['goalsAgainst']) / iceTimeAll) * 3600,
-        xgaPer60: (getFloat(teamRow, ['xGoalsAgainst']) / iceTime5v5) * 3600,
-        
-        // SPECIAL TEAMS (Fixed Headers)
-        // MoneyPuck often uses 'fiveOnFourGoalsFor' or 'ppGoalsFor'
-        ppPercent: (getFloat(teamAllRow, ['ppGoalsFor', 'fiveOnFourGoalsFor']) / getFloat(teamAllRow, ['penaltiesDrawn', 'penaltiesDrawnPer60'])) * 100 || 0,
-        pkPercent: 100 - ((getFloat(teamAllRow, ['ppGoalsAgainst', 'fiveOnFourGoalsAgainst']) / getFloat(teamAllRow, ['penaltiesTaken', 'penaltiesTakenPer60'])) * 100 || 0),
-        pimsPerGame: (getFloat(teamAllRow, ['penaltiesMinutes', 'pim']) / (iceTimeAll / 3600)) || 8.0,
-
-        // POSSESSION
-        // MoneyPuck uses 'unblockedShotAttempts' for Fenwick, 'shotAttempts' for Corsi
-        corsiPercent: getFloat(teamRow, ['corsiPercentage', 'shotAttemptsPercentage']) * 100,
-        faceoffPercent: getFloat(teamAllRow, ['faceOffWinPercentage', 'faceOffsWonPercentage']) * 100,
-        
-        // SHOOTING / QUALITY
-        shootingPercent: getFloat(teamRow, ['shootingPercentage', 'shootingPercentage5on5']) * 100,
-        hdcfPercent: (getFloat(teamRow, ['highDangerGoalsFor']) / (getFloat(teamRow, ['highDangerGoalsFor']) + getFloat(teamRow, ['highDangerGoalsAgainst']))) * 100 || 50,
-
-        // GOALIE
-        goalie: { ...goalieStats, status: starterStatus }
+        scenario: { overrides: scenario, weights: scenarioStats.weights, home: scenarioStats.home, away: scenarioStats.away, prediction, ...extra },
+        difference: scenarioDifference(predictMatchup(homeStats, awayStats, weights), prediction)
       };
     };
 
+    // --- 3. PREDICT / SIMULATE MODES ---
+    if (action === "predict" || action === "simulate") {
+      if (!homeStats || !awayStats) {
+        return errorResponse("NO_STATS", "No stats found", { missing: [!homeStats && targetHome, !awayStats && targetAway].filter(Boolean), sources });
+      }
+      if (action === "simulate") {
+        // An explicit ?total= wins over the market total (useful for alt lines)
+        const queryTotal = simParams.values.total;
+        const simulation = simulateMatchup(homeStats, awayStats, {
+          sims: simParams.values.sims,
+          seed: simParams.values.seed,
+          total: queryTotal ?? odds.total,
+          weights
+        });
+        // Same seed for the scenario, so the difference isn't just sampling noise
+        const scenarioSimulation = scenarioStats && simulateMatchup(scenarioStats.home, scenarioStats.away, {
+          sims: simulation.sims,
+          seed: simulation.seed,
+          total: queryTotal ?? odds.total,
+          weights: scenarioStats.weights
+        });
+        return {
+          statusCode: 200,
+          headers: { "Content-Type": "application/json", "Access-Control-Allow-Origin": "*" },
+          body: JSON.stringify({
+            home: homeStats,
+            away: awayStats,
+            odds,
+            lines: books,
+            ratings,
+            season: seasonInfo,
+            config: configInfo,
+            simulation: { ...simulation, totalSource: queryTotal === undefined ? odds.totalSource : "Query" },
+            ...compare(scenarioSimulation ? { simulation: scenarioSimulation } : {}),
+            // A ?total= replaces the defaulted one
+            warnings: collectWarnings(sources, queryTotal === undefined ? warnings : warnings.filter((w) => w.code !== "TOTAL_DEFAULTED")),
+            sources
+          }),
+        };
+      }
+      return {
+        statusCode: 200,
+        headers: { "Content-Type": "application/json", "Access-Control-Allow-Origin": "*" },
+        body: JSON.stringify({
+          home: homeStats,
+          away: awayStats,
+          odds,
+          lines: books,
+          ratings,
+          season: seasonInfo,
+          config: configInfo,
+          prediction: predictMatchup(homeStats, awayStats, weights),
+          ...compare(),
+          warnings: collectWarnings(sources, warnings),
+          sources
+        }),
+      };
+    }
+
     return {
       statusCode: 200,
       headers: { "Content-Type": "application/json", "Access-Control-Allow-Origin": "*" },
       body: JSON.stringify({
-        home: getSavantStats(targetHome, homeGoalie),
-        away: getSavantStats(targetAway, awayGoalie),
-        odds: gameOdds || { source: "Not Found", line: "OFF", total: "6.5" }
+        home: homeStats,
+        away: awayStats,
+        odds,
+        lines: books,
+        ratings,
+        season: seasonInfo,
+        config: configInfo,
+        ...compare(),
+        warnings: collectWarnings(sources, warnings),
+        sources
       }),
     };
 
   } catch (error) {
-    return { statusCode: 500, body: JSON.stringify({ error: "Engine Error", details: String(error) }) };
+    return failureResponse(error, "Engine Error", sources);
   }
 };
@@ -0,0 +1,222 @@
+import { Handler } from "@netlify/functions";
+import { normalizeTeamCode, resolveTeam, unknownTeamResponse } from "../lib/teams";
+import { chooseStarter, loadStarters, StarterMap } from "../lib/starters";
+import { describeCandidates, PlayerAccessors, resolvePlayer } from "../lib/players";
+import { resolveSeasonParams } from "../lib/season";
+import { LEAGUE, poissonPmf } from "../lib/model";
+import { SourceMeta } from "../lib/cache";
+import { loadSeasonCsv } from "../lib/sources";
+import { GOALIE_COLUMNS, goalieGsax, readFloat, ROW_FIELDS } from "../lib/rows";
+import { errorResponse, failureResponse } from "../lib/errors";
+import { collectWarnings } from "../lib/warnings";
+import { CsvRow, PlayerNameMatch, SkaterOpponent, SkaterSituation, SkaterStats, SkaterTonight } from "../lib/types";
+
+// --- DATA SOURCES ---
+// 1. MoneyPuck: skaters.csv (same layout as goalies.csv, one row per player and situation),
+//    plus teams.csv and goalies.csv for tonight's opponent
+// 2. NHL Official API: tonight's games and listed starters (lib/starters)
+// All cached through lib/cache; the response's `sources` block reports their age.
+
+const SITUATIONS = ["all", "5on5", "5on4"];
+
+// Prop lines the projections are priced at
+const SHOT_LINES = [1.5, 2.5, 3.5, 4.5];
+const POINT_LINES = [0.5, 1.5];
+
+// MoneyPuck's individual ("I_F_") columns, with the plain names as fallbacks
+const COLUMNS = {
+  iceTime: ['icetime', 'iceTime'],
+  games: ['games_played', 'gamesPlayed'],
+  goals: ['I_F_goals', 'goals'],
+  xGoals: ['I_F_xGoals', 'xGoals'],
+  shots: ['I_F_shotsOnGoal', 'shotsOnGoal'],
+  points: ['I_F_points', 'points'],
+};
+
+// --- PLAYER IDENTITY ---
+const skaterKey = (row: CsvRow | SkaterStats) => String(row.playerId || row.name);
+const SKATER_FIELDS: PlayerAccessors<SkaterStats> = { id: (s) => s.playerId, name: (s) => s.name };
+
+// --- RATES ---
+const round = (val: number, digits = 3) => parseFloat(val.toFixed(digits));
+
+const situationRates = (row: CsvRow): SkaterSituation => {
+  const seconds = readFloat(row, COLUMNS.iceTime);
+  const games = readFloat(row, COLUMNS.games);
+  const per60 = (keys: string[]) => (seconds > 0 ? round((readFloat(row, keys) * 3600) / seconds) : 0);
+  return {
+    gamesPlayed: games,
+    toiPerGame: games > 0 ? round(seconds / games / 60, 2) : 0, // Minutes
+    goalsPer60: per60(COLUMNS.goals),
+    xGoalsPer60: per60(COLUMNS.xGoals),
+    shotsPer60: per60(COLUMNS.shots),
+    pointsPer60: per60(COLUMNS.points),
+    totals: {
+      goals: readFloat(row, COLUMNS.goals),
+      xGoals: round(readFloat(row, COLUMNS.xGoals), 2),
+      shots: readFloat(row, COLUMNS.shots),
+      points: readFloat(row, COLUMNS.points),
+    },
+  };
+};
+
+// P(X > line) for a Poisson count
+const overProbability = (lambda: number, line: number) => {
+  let under = 0;
+  for (let k = 0; k <= Math.floor(line); k++) under += poissonPmf(lambda, k);
+  return round(1 - under, 4);
+};
+
+// --- OPPONENT CONTEXT ---
+// Tonight's opponent for each team playing: 5on5 xGA/60 and the starting goalie's GSAx/60
+const opponentContext = (starters: StarterMap, teams: CsvRow[], goalies: CsvRow[]) => {
+  const context: Record<string, SkaterOpponent> = {};
+  Object.values(starters).forEach((entry) => {
+    const opp = entry.opponent;
+    const teamRow = teams.find((row) => normalizeTeamCode(row.team) === opp && row.situation === "5on5");
+    const iceTime = readFloat(teamRow, ['iceTime', 'icetime']) || 1;
+    const xgaPer60 = teamRow ? (readFloat(teamRow, ['xGoalsAgainst']) / iceTime) * 3600 : LEAGUE.xgaPer60;
+
+    const oppGoalies = goalies.filter((row) => normalizeTeamCode(row.team) === opp && (!row.situation || row.situation === "all"));
+    const pick = chooseStarter(oppGoalies, starters[opp], ROW_FIELDS, (row) => readFloat(row, GOALIE_COLUMNS.gamesPlayed));
+    const gTime = readFloat(pick?.row, GOALIE_COLUMNS.iceTime) || 1;
+    const gsaxPer60 = pick ? (goalieGsax(pick.row) / gTime) * 3600 : 0;
+
+    context[entry.team] = {
+      opponent: opp,
+      gameId: entry.gameId,
+      opponentXgaPer60: round(xgaPer60),
+      opponentGoalie: pick ? { name: pick.row.name, playerId: pick.row.playerId || null, status: pick.status, gsaxPer60: round(gsaxPer60) } : null,
+    };
+  });
+  return context;
+};
+
+// --- PROJECTION ---
+// Season all-situations rates over his usual ice time, scaled by how much the opponent
+// allows at 5on5 relative to the league. Goals and points also lose the share of
+// scoring the opposing starter saves above expected; shots don't depend on the goalie.
+const projectTonight = (all: SkaterSituation, opp: SkaterOpponent | undefined): SkaterTonight | null => {
+  if (!opp || all.toiPerGame <= 0) return null;
+  const minutes = all.toiPerGame;
+  const defense = opp.opponentXgaPer60 / LEAGUE.xgaPer60;
+  const goalie = Math.max(0.5, 1 - (opp.opponentGoalie?.gsaxPer60 || 0) / LEAGUE.goalsPerGame);
+
+  const shots = (all.shotsPer60 * minutes / 60) * defense;
+  const points = (all.pointsPer60 * minutes / 60) * defense * goalie;
+  const goals = (all.goalsPer60 * minutes / 60) * defense * goalie;
+
+  return {
+    ...opp,
+    projectedToi: minutes,
+    adjustments: { defense: round(defense), goalie: round(goalie) },
+    shotsOnGoal: { projection: round(shots, 2), over: Object.fromEntries(SHOT_LINES.map((line) => [line, overProbability(shots, line)])) },
+    points: { projection: round(points, 2), over: Object.fromEntries(POINT_LINES.map((line) => [line, overProbability(points, line)])) },
+    goals: { projection: round(goals, 2), anytime: overProbability(goals, 0.5) },
+  };
+};
+
+export const handler: Handler = async (event) => {
+  const { team, name, position, season, type, blend, date } = event.queryStringParameters || {};
+
+  const seasonParams = resolveSeasonParams(season, type, date);
+  if (seasonParams.errors.length) {
+    return errorResponse("INVALID_PARAMETERS", "Invalid date or season parameters", { details: seasonParams.errors });
+  }
+  const useBlend = blend === "true" || blend === "1";
+
+  const teamFilter = team ? resolveTeam(team) : null;
+  if (team && !teamFilter) return unknownTeamResponse([team]);
+
+  const sources: SourceMeta[] = [];
+  try {
+    // 1. FETCH MONEYPUCK STATS (Long Cache) + TONIGHT'S GAMES (Short Cache)
+    const [skaterRows, teamRows, goalieRows, starters] = await Promise.all([
+      loadSeasonCsv(seasonParams.season, seasonParams.type, "skaters", useBlend, sources),
+      loadSeasonCsv(seasonParams.season, seasonParams.type, "teams", useBlend, sources),
+      loadSeasonCsv(seasonParams.season, seasonParams.type, "goalies", useBlend, sources),
+      loadStarters(date, sources)
+    ]);
+    const opponents = opponentContext(starters, teamRows, goalieRows);
+
+    // 2. GROUP SITUATION ROWS PER PLAYER
+    const players = new Map<string, { base: CsvRow; rows: Record<string, CsvRow> }>();
+    skaterRows.forEach((row) => {
+      if (!SITUATIONS.includes(row.situation)) return;
+      const key = skaterKey(row);
+      const entry = players.get(key) || { base: row, rows: {} as Record<string, CsvRow> };
+      entry.rows[row.situation] = row;
+      if (row.situation === "all") entry.base = row;
+      players.set(key, entry);
+    });
+
+    // 3. RATES & PROJECTIONS
+    let results = [...players.values()].map(({ base, rows }): SkaterStats => {
+      const teamCode = normalizeTeamCode(base.team);
+      const situations = Object.fromEntries(SITUATIONS.filter((sit) => rows[sit]).map((sit) => [sit, situationRates(rows[sit])]));
+      const all = situations.all;
+      return {
+        playerId: base.playerId || null,
+        name: base.name,
+        team: teamCode,
+        position: base.position || null,
+        gamesPlayed: all?.gamesPlayed ?? 0,
+        situations,
+        tonight: all ? projectTonight(all, opponents[teamCode]) : null
+      };
+    }).filter((p) => p.situations.all && p.situations.all.toiPerGame > 0);
+
+    // 4. OPTIONAL FILTERING
+    if (teamFilter) {
+      results = results.filter((p) => p.team === teamFilter.code);
+    }
+    if (position) {
+      // "F" matches C/L/R, otherwise the MoneyPuck position letter
+      const wanted = position.toUpperCase();
+      results = results.filter((p) => (wanted === "F" ? ["C", "L", "R"].includes(p.position ?? "") : p.position === wanted));
+    }
+
+    // Name or NHL player ID. More than one skater -> all of them, flagged as ambiguous.
+    let nameMatch: PlayerNameMatch | null = null;
+    if (name) {
+      const match = resolvePlayer(results, name, SKATER_FIELDS);
+      const keep = new Set(match.candidates.map(skaterKey));
+      results = results.filter((p) => keep.has(skaterKey(p)));
+      nameMatch = {
+        query: name,
+        status: match.status,
+        candidates: match.status === "ambiguous" ? describeCandidates(match.candidates, SKATER_FIELDS, (p) => p.team) : []
+      };
+    }
+
+    // 5. SORTING
+    // Players in tonight's games first (by projected points), then by points per 60
+    results.sort((a, b) => {
+        if (a.tonight && !b.tonight) return -1;
+        if (!a.tonight && b.tonight) return 1;
+        if (a.tonight && b.tonight) return b.tonight.points.projection - a.tonight.points.projection;
+        return b.situations.all.pointsPer60 - a.situations.all.pointsPer60;
+    });
+
+    return {
+      statusCode: 200,
+      headers: {
+        "Content-Type": "application/json",
+        "Access-Control-Allow-Origin": "*",
+        "Cache-Control": "public, max-age=3600"
+      },
+      body: JSON.stringify({
+        date: date || "Today",
+        season: { season: seasonParams.season, type: seasonParams.type, blended: useBlend },
+        match: nameMatch,
+        count: results.length,
+        skaters: results,
+        warnings: collectWarnings(sources),
+        sources
+      }),
+    };
+
+  } catch (error) {
+    return failureResponse(error, "Failed to fetch skater stats", sources);
+  }
+};
@@ -0,0 +1,27 @@
+// --- WRITE ACCESS ---
+// Requests that change shared state (POST action=configs) carry the admin token from
+// SAVANT_ADMIN_TOKEN as `Authorization: Bearer <token>`. With no token configured,
+// writes are turned off rather than open to anyone.
+import { timingSafeEqual } from "crypto";
+
+let adminToken: string | null = process.env.SAVANT_ADMIN_TOKEN || null;
+
+// Tests (and local tooling) set the token directly
+export const setAdminToken = (token: string | null) => {
+  adminToken = token || null;
+};
+
+const bearer = (headers: Record<string, string | undefined> = {}) => {
+  const value = Object.entries(headers).find(([name]) => name.toLowerCase() === "authorization")?.[1] || "";
+  const match = value.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+};
+
+// null when the request may write, otherwise why not
+export const writeDenied = (headers?: Record<string, string | undefined>) => {
+  if (!adminToken) return "Writes are disabled: SAVANT_ADMIN_TOKEN is not set";
+  const sent = bearer(headers);
+  if (!sent) return "Missing admin token (Authorization: Bearer <token>)";
+  const [a, b] = [Buffer.from(sent), Buffer.from(adminToken)];
+  return a.length === b.length && timingSafeEqual(a, b) ? null : "Invalid admin token";
+};
@@ -0,0 +1,162 @@
+// --- BACKTEST ---
+// Replays past games with the inputs the engine would have had that morning:
+// MoneyPuck game-by-game team logs summed up to the day before, and team-level
+// goaltending (xGA - GA) over the same games. Per-goalie history isn't in the
+// team logs, so the backtest grades the team model rather than starter picks.
+import { decimalOdds, expectedValue, priceTwoWay } from "./odds";
+import { CsvRow } from "./types";
+
+export const MAX_BACKTEST_DAYS = 31;
+
+// --- DATES ---
+// Inclusive list of YYYYMMDD days between two parsed dates
+export const datesBetween = (from: Date, to: Date) => {
+  const days: string[] = [];
+  const cursor = new Date(from);
+  while (cursor <= to) {
+    days.push(cursor.toISOString().split("T")[0].replace(/-/g, ""));
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+  return days;
+};
+
+// --- AS-OF INPUTS ---
+const IDENTITY_COLUMNS = new Set([
+  "team", "name", "season", "situation", "position", "playerTeam", "opposingTeam",
+  "home_or_away", "gameId", "gameDate", "playerId"
+]);
+
+// Sums a team's game rows for one season and situation, strictly before `beforeDate` (YYYYMMDD).
+// Percentages can't be summed, so the ones the engine reads are rebuilt from the totals.
+const sumGames = (log: any[], teamCode: string, season: number, situation: string, beforeDate: string) => {
+  const games = log.filter((row: any) =>
+    parseInt(row.season) === season && row.situation === situation && String(row.gameDate) < beforeDate);
+  if (games.length === 0) return null;
+
+  const totals: Record<string, number> = {};
+  games.forEach((row: any) => {
+    Object.keys(row).forEach((col) => {
+      if (IDENTITY_COLUMNS.has(col) || /percentage/i.test(col)) return;
+      const val = parseFloat(row[col]);
+      if (!isNaN(val)) totals[col] = (totals[col] || 0) + val;
+    });
+  });
+
+  const share = (a: string, b: string) => (totals[a] + totals[b] > 0 ? totals[a] / (totals[a] + totals[b]) : 0.5);
+  return {
+    ...Object.fromEntries(Object.entries(totals).map(([col, val]) => [col, String(val)])),
+    team: teamCode,
+    season: String(season),
+    situation,
+    games_played: String(games.length),
+    xGoalsPercentage: String(share("xGoalsFor", "xGoalsAgainst")),
+    corsiPercentage: String(share("shotAttemptsFor", "shotAttemptsAgainst")),
+  } as CsvRow;
+};
+
+// MoneyPuck-style summary rows ("all", "5on5" and the special-teams situations when the
+// log has them) plus one team goaltending row, as of a date.
+// Null when the team hasn't played yet that season.
+export const teamInputsAsOf = (log: any[], teamCode: string, season: number, beforeDate: string) => {
+  const all = sumGames(log, teamCode, season, "all", beforeDate);
+  const fiveOnFive = sumGames(log, teamCode, season, "5on5", beforeDate);
+  if (!all || !fiveOnFive) return null;
+  const specialTeams = ["5on4", "4on5"]
+    .map((situation) => sumGames(log, teamCode, season, situation, beforeDate))
+    .filter((row): row is CsvRow => row !== null);
+
+  const xga = parseFloat(all.xGoalsAgainst) || 0;
+  const ga = parseFloat(all.goalsAgainst) || 0;
+  const shotsAgainst = parseFloat(all.shotsOnGoalAgainst) || 0;
+  const goalie: CsvRow = {
+    name: `${teamCode} Goaltending`,
+    playerId: "",
+    team: teamCode,
+    situation: "all",
+    iceTime: all.iceTime,
+    goalsAgainst: String(ga),
+    goalsSavedAboveExpected: String(xga - ga),
+    savePercentage: shotsAgainst > 0 ? String(1 - ga / shotsAgainst) : "",
+    games_played: all.games_played,
+  };
+  return { teams: [all, fiveOnFive, ...specialTeams], goalie };
+};
+
+// --- SCORING ---
+export interface BacktestGame {
+  gameId: string;
+  date: string;
+  home: string;
+  away: string;
+  homeScore: number;
+  awayScore: number;
+  modelHome: number;                                        // Model home win probability (incl. OT)
+  closing: { home: number; away: number } | null;           // American moneylines
+  closingSource: "stored" | "espn-board" | null;
+}
+
+const round = (val: number) => parseFloat(val.toFixed(4));
+const clamp = (p: number) => Math.min(1 - 1e-6, Math.max(1e-6, p));
+
+const logLoss = (pairs: [number, number][]) =>
+  pairs.length ? round(-pairs.reduce((sum, [p, y]) => sum + (y ? Math.log(clamp(p)) : Math.log(1 - clamp(p))), 0) / pairs.length) : null;
+
+const brier = (pairs: [number, number][]) =>
+  pairs.length ? round(pairs.reduce((sum, [p, y]) => sum + (p - y) ** 2, 0) / pairs.length) : null;
+
+// 10 buckets on the home win probability: how often the home side actually won in each
+const calibration = (pairs: [number, number][]) =>
+  Array.from({ length: 10 }, (_, i) => {
+    const inBin = pairs.filter(([p]) => Math.min(9, Math.floor(p * 10)) === i);
+    return {
+      bin: `${(i / 10).toFixed(1)}-${((i + 1) / 10).toFixed(1)}`,
+      games: inBin.length,
+      predicted: inBin.length ? round(inBin.reduce((sum, [p]) => sum + p, 0) / inBin.length) : null,
+      actual: inBin.length ? round(inBin.reduce((sum, [, y]) => sum + y, 0) / inBin.length) : null,
+    };
+  }).filter((bin) => bin.games > 0);
+
+// Flat one-unit bet on the side with positive expected value at the closing price (if any)
+const bet = (game: BacktestGame) => {
+  if (!game.closing) return null;
+  const homeEv = expectedValue(game.modelHome, game.closing.home);
+  const awayEv = expectedValue(1 - game.modelHome, game.closing.away);
+  if (homeEv <= 0 && awayEv <= 0) return null;
+  const side = homeEv >= awayEv ? "home" : "away";
+  const price = game.closing[side];
+  const won = side === "home" ? game.homeScore > game.awayScore : game.awayScore > game.homeScore;
+  return { side, price, profit: round(won ? decimalOdds(price) - 1 : -1) };
+};
+
+export const scoreBacktest = (games: BacktestGame[]) => {
+  const model = games.map((g) => [g.modelHome, g.homeScore > g.awayScore ? 1 : 0] as [number, number]);
+
+  // Baseline: the de-vigged closing line on the same games
+  const priced = games.filter((g) => g.closing);
+  const market = priced.map((g) => [priceTwoWay(g.closing!.home, g.closing!.away).fair![0], g.homeScore > g.awayScore ? 1 : 0] as [number, number]);
+  const modelOnPriced = priced.map((g) => [g.modelHome, g.homeScore > g.awayScore ? 1 : 0] as [number, number]);
+
+  const bets = games.map(bet).filter((b) => b !== null) as { side: string; price: number; profit: number }[];
+  const profit = bets.reduce((sum, b) => sum + b.profit, 0);
+
+  return {
+    games: games.length,
+    logLoss: logLoss(model),
+    brier: brier(model),
+    calibration: calibration(model),
+    vsClosing: {
+      games: priced.length,
+      model: { logLoss: logLoss(modelOnPriced), brier: brier(modelOnPriced) },
+      market: { logLoss: logLoss(market), brier: brier(market) },
+    },
+    roi: {
+      bets: bets.length,
+      staked: bets.length,
+      profit: round(profit),
+      roi: bets.length ? round(profit / bets.length) : null,
+    },
+  };
+};
+
+// Per-game row for the response
+export const describeGame = (game: BacktestGame) => ({ ...game, modelHome: round(game.modelHome), bet: bet(game) });
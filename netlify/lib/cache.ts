@@ -0,0 +1,159 @@
+// --- SHARED CACHE LAYER ---
+// Every upstream fetch goes through cachedFetch, which gives us:
+//   - a swappable backend (in-memory, or a directory standing in for blob storage)
+//   - per-source TTLs, plus a stale window served while a refresh runs (stale-while-revalidate)
+//   - one in-flight fetch per key, however many requests ask at once (single-flight)
+//   - last-known-good data when the upstream call fails
+// Callers pass a SourceMeta[] to collect each source's age and staleness for the response.
+import { promises as fs } from "fs";
+import path from "path";
+import { clientErrorText } from "./errors";
+
+export interface CacheEntry<T = any> {
+  value: T;
+  fetchedAt: number;
+}
+
+export interface CacheBackend {
+  name: string;
+  get(key: string): Promise<CacheEntry | null>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+}
+
+// --- BACKENDS ---
+export const createMemoryBackend = (): CacheBackend => {
+  const store = new Map<string, CacheEntry>();
+  return {
+    name: "memory",
+    get: async (key) => store.get(key) || null,
+    set: async (key, entry) => { store.set(key, entry); },
+  };
+};
+
+// One JSON file per key. Survives cold starts when the directory is persistent.
+export const createFileBackend = (dir: string): CacheBackend => {
+  const fileFor = (key: string) => path.join(dir, `${key.replace(/[^a-zA-Z0-9_-]+/g, "_")}.json`);
+  return {
+    name: `file:${dir}`,
+    get: async (key) => {
+      try {
+        return JSON.parse(await fs.readFile(fileFor(key), "utf8"));
+      } catch (e) {
+        return null;
+      }
+    },
+    set: async (key, entry) => {
+      await fs.mkdir(dir, { recursive: true });
+      await fs.writeFile(fileFor(key), JSON.stringify(entry));
+    },
+  };
+};
+
+// SAVANT_CACHE_DIR switches the persistent layer to a directory (e.g. a mounted volume)
+let backend: CacheBackend = process.env.SAVANT_CACHE_DIR
+  ? createFileBackend(process.env.SAVANT_CACHE_DIR)
+  : createMemoryBackend();
+
+export const setCacheBackend = (next: CacheBackend) => {
+  backend = next;
+  memory.clear();
+};
+
+export const getCacheBackend = () => backend;
+
+// --- PER-SOURCE TTLS ---
+// ttl: fresh window. stale: extra window where cached data is served while refreshing.
+export const SOURCE_TTLS = {
+  moneypuck: { ttl: 1000 * 60 * 60, stale: 1000 * 60 * 60 * 24 },      // 1 Hour fresh, 1 Day stale
+  espn: { ttl: 1000 * 60 * 5, stale: 1000 * 60 * 60 },                 // 5 Minutes fresh, 1 Hour stale
+  "nhl-schedule": { ttl: 1000 * 60 * 10, stale: 1000 * 60 * 60 * 2 },  // 10 Minutes fresh, 2 Hours stale
+  "odds-feed": { ttl: 1000 * 60 * 2, stale: 1000 * 60 * 30 },          // 2 Minutes fresh, 30 Minutes stale
+};
+
+export type SourceName = keyof typeof SOURCE_TTLS;
+
+export interface SourceMeta {
+  source: SourceName;
+  key: string;
+  fetchedAt: string | null;
+  ageSeconds: number | null;
+  stale: boolean;      // Served past its TTL
+  fallback: boolean;   // Served because the upstream call failed
+  error?: string;      // Client-safe failure text (see clientErrorText in lib/errors)
+  warnings?: string[]; // Problems found in the served data (see lib/rows)
+}
+
+// In-process copy in front of the backend, so warm invocations skip the disk
+const memory = new Map<string, CacheEntry>();
+const inflight = new Map<string, Promise<CacheEntry>>();
+
+const readEntry = async (key: string) => {
+  const hot = memory.get(key);
+  if (hot) return hot;
+  const stored = await backend.get(key);
+  if (stored) memory.set(key, stored);
+  return stored;
+};
+
+// Single-flight refresh: concurrent callers share the same promise
+const refresh = <T>(key: string, fetcher: () => Promise<T>) => {
+  const running = inflight.get(key);
+  if (running) return running as Promise<CacheEntry<T>>;
+
+  const task = (async () => {
+    const entry: CacheEntry<T> = { value: await fetcher(), fetchedAt: Date.now() };
+    memory.set(key, entry);
+    await backend.set(key, entry).catch((e) => console.error(`Cache write failed for ${key}:`, e));
+    return entry;
+  })().finally(() => inflight.delete(key));
+
+  inflight.set(key, task);
+  return task;
+};
+
+const describe = (source: SourceName, key: string, entry: CacheEntry | null, extra: Partial<SourceMeta> = {}): SourceMeta => ({
+  source,
+  key,
+  fetchedAt: entry ? new Date(entry.fetchedAt).toISOString() : null,
+  ageSeconds: entry ? Math.round((Date.now() - entry.fetchedAt) / 1000) : null,
+  stale: false,
+  fallback: false,
+  ...extra,
+});
+
+// --- MAIN ---
+export const cachedFetch = async <T>(source: SourceName, key: string, fetcher: () => Promise<T>, sources?: SourceMeta[]): Promise<T> => {
+  const { ttl, stale } = SOURCE_TTLS[source];
+  const fullKey = `${source}:${key}`;
+  const entry = await readEntry(fullKey);
+  const age = entry ? Date.now() - entry.fetchedAt : Infinity;
+
+  // 1. Fresh
+  if (entry && age < ttl) {
+    sources?.push(describe(source, key, entry));
+    return entry.value;
+  }
+
+  // 2. Stale but usable: answer now, refresh in the background
+  if (entry && age < ttl + stale) {
+    refresh(fullKey, fetcher).catch((e) => console.error(`Background refresh failed for ${fullKey}:`, e));
+    sources?.push(describe(source, key, entry, { stale: true }));
+    return entry.value;
+  }
+
+  // 3. Missing or expired: wait for the upstream, fall back to last-known-good
+  try {
+    const fresh = await refresh(fullKey, fetcher);
+    sources?.push(describe(source, key, fresh));
+    return fresh.value;
+  } catch (error) {
+    if (entry) {
+      console.error(`Upstream failed for ${fullKey}, serving last-known-good:`, error);
+      sources?.push(describe(source, key, entry, { stale: true, fallback: true, error: clientErrorText(error) }));
+      return entry.value;
+    }
+    console.error(`Upstream failed for ${fullKey}:`, error);
+    sources?.push(describe(source, key, null, { error: clientErrorText(error) }));
+    throw error;
+  }
+};
@@ -0,0 +1,69 @@
+// --- EDGE FINDER ---
+// Lines up model moneyline probabilities against the de-vigged market for a
+// slate of games and sizes each side with a capped Kelly stake. Each side is priced
+// at the best moneyline across books and measured against the consensus no-vig
+// probability (see lib/providers).
+import { expectedValue, kellyFraction } from "./odds";
+import { GameLines } from "./providers";
+
+export const DEFAULT_KELLY_CAP = 0.05; // Never stake more than 5% of bankroll on one side
+
+export interface EdgeGame {
+  gameId: string;
+  date: string;
+  home: string;
+  away: string;
+  lines: GameLines;
+  modelHome: number;  // Model moneyline probability for the home side
+}
+
+const round = (val: number) => parseFloat(val.toFixed(4));
+
+// ?kellyCap= as a bankroll fraction in (0, 1]. Missing -> the default; anything else -> null,
+// so a negative or oversized cap never turns into a stake recommendation.
+export const parseKellyCap = (input?: string) => {
+  if (input === undefined || input === "") return DEFAULT_KELLY_CAP;
+  const cap = Number(input);
+  return Number.isFinite(cap) && cap > 0 && cap <= 1 ? cap : null;
+};
+
+export const findEdges = (games: EdgeGame[], kellyCap = DEFAULT_KELLY_CAP) => {
+  const sides = games.flatMap((game) => {
+    const { best, consensus } = game.lines;
+    return (["home", "away"] as const).map((side) => {
+      const offer = best.moneyline[side];
+      const price = offer?.price ?? null;
+      const fair = side === "home" ? consensus.moneyline.fairHome : consensus.moneyline.fairAway;
+      const modelProb = side === "home" ? game.modelHome : 1 - game.modelHome;
+
+      const base = {
+        gameId: game.gameId,
+        date: game.date,
+        team: side === "home" ? game.home : game.away,
+        opponent: side === "home" ? game.away : game.home,
+        side,
+        price,
+        book: offer?.book ?? null,
+        modelProb: round(modelProb),
+        marketFairProb: fair,
+      };
+
+      // No price -> report the model number but nothing to bet against
+      if (price === null || fair === null) {
+        return { ...base, edge: null, ev: null, fullKelly: null, kelly: 0 };
+      }
+
+      const fullKelly = kellyFraction(modelProb, price);
+      return {
+        ...base,
+        edge: round(modelProb - fair),
+        ev: round(expectedValue(modelProb, price)),
+        fullKelly: round(fullKelly),
+        kelly: round(Math.min(kellyCap, Math.max(0, fullKelly))),
+      };
+    });
+  });
+
+  // Biggest edge first; unpriced sides go last
+  return sides.sort((a, b) => (b.edge ?? -Infinity) - (a.edge ?? -Infinity));
+};
@@ -0,0 +1,77 @@
+// --- ERROR MODEL ---
+// Every failed request answers with the same envelope:
+//   { error: "<message>", code: "<ERROR_CODE>", details?, ...context, sources? }
+// `details` lists what was wrong with the request; exception text never reaches the client.
+// `error` stays a human-readable message for existing callers; `code` is what clients branch on.
+import { HandlerResponse } from "@netlify/functions";
+import { SourceMeta } from "./cache";
+
+export type ErrorCode =
+  | "MISSING_PARAMETERS"  // 400: a required query parameter is absent
+  | "INVALID_PARAMETERS"  // 400: season/type/date/range don't parse
+  | "UNKNOWN_TEAM"        // 400: a team that doesn't resolve (see lib/teams)
+  | "GOALIE_NOT_FOUND"    // 404
+  | "AMBIGUOUS_GOALIE"    // 409: the name matches more than one goalie
+  | "NO_STATS"            // 404: MoneyPuck has no rows for a team
+  | "NO_GAME_FOUND"       // 404: no game (or no recorded line history) for the request
+  | "CONFIG_NOT_FOUND"    // 404: no saved model config by that name (lib/scenarios)
+  | "CONFIG_EXISTS"       // 409: a config is already saved under that name (send overwrite: true)
+  | "UNAUTHORIZED"        // 401: a write without a valid admin token (lib/auth)
+  | "UPSTREAM_TIMEOUT"    // 504: an upstream call ran out of time on every attempt
+  | "UPSTREAM_ERROR"      // 502: an upstream call failed and nothing was cached
+  | "INTERNAL";           // 500
+
+const STATUS: Record<ErrorCode, number> = {
+  MISSING_PARAMETERS: 400,
+  INVALID_PARAMETERS: 400,
+  UNKNOWN_TEAM: 400,
+  GOALIE_NOT_FOUND: 404,
+  AMBIGUOUS_GOALIE: 409,
+  NO_STATS: 404,
+  NO_GAME_FOUND: 404,
+  CONFIG_NOT_FOUND: 404,
+  CONFIG_EXISTS: 409,
+  UNAUTHORIZED: 401,
+  UPSTREAM_TIMEOUT: 504,
+  UPSTREAM_ERROR: 502,
+  INTERNAL: 500,
+};
+
+// --- UPSTREAM FAILURES ---
+// Thrown by lib/http once retries are exhausted
+export class UpstreamError extends Error {
+  code: "UPSTREAM_TIMEOUT" | "UPSTREAM_ERROR";
+  url: string;
+  status: number | null;   // HTTP status from the upstream, when it answered at all
+
+  constructor(url: string, code: UpstreamError["code"], message: string, status: number | null = null) {
+    super(message);
+    this.name = "UpstreamError";
+    this.url = url;
+    this.code = code;
+    this.status = status;
+  }
+}
+
+// What a client may see of a caught error: upstream failures name the host and the HTTP
+// status, anything else is a fixed message. Exception text (paths, parser output) stays in the log.
+export const clientErrorText = (error: unknown) => {
+  if (!(error instanceof UpstreamError)) return "unavailable";
+  const host = error.url.replace(/^https?:\/\//, "").split("/")[0];
+  if (error.code === "UPSTREAM_TIMEOUT") return `${host} timed out`;
+  return error.status ? `${host} failed: HTTP ${error.status}` : `${host} failed`;
+};
+
+// --- RESPONSES ---
+export const errorResponse = (code: ErrorCode, error: string, context: Record<string, any> = {}): HandlerResponse => ({
+  statusCode: STATUS[code],
+  headers: { "Content-Type": "application/json", "Access-Control-Allow-Origin": "*", "Cache-Control": "no-store" },
+  body: JSON.stringify({ error, code, ...context }),
+});
+
+// Anything thrown inside a handler: upstream failures keep their code, the rest is INTERNAL.
+// The exception itself only goes to the function log; clients get the code, message and sources.
+export const failureResponse = (error: unknown, message: string, sources?: SourceMeta[]) => {
+  console.error(`${message}:`, error);
+  return errorResponse(error instanceof UpstreamError ? error.code : "INTERNAL", message, sources ? { sources } : {});
+};
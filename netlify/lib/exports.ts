@@ -0,0 +1,167 @@
+// --- EXPORT FORMATS ---
+// ?format= on goalie-stats, nhl-odds and savant-api ?action=schedule:
+//   json - the default response
+//   csv  - one row per item, nested fields flattened into dotted columns (homeTeam.code, stats.gaa)
+//   ics  - one calendar event per game, starters and the line in the description
+// Both downloads drop `warnings` and `sources`; ask for json to see what the data was built on.
+import { HandlerResponse } from "@netlify/functions";
+import { errorResponse } from "./errors";
+import { ParsedMarket } from "./odds";
+import { parseDateParam } from "./season";
+import { easternDate, StarterMap, todayEastern } from "./starters";
+
+export type ExportFormat = "json" | "csv" | "ics";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["json", "csv", "ics"];
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  json: "application/json",
+  csv: "text/csv; charset=utf-8",
+  ics: "text/calendar; charset=utf-8",
+};
+
+// Missing -> json; anything not in `allowed` -> null
+export const parseFormat = (input?: string, allowed = EXPORT_FORMATS): ExportFormat | null => {
+  if (!input) return "json";
+  const format = input.trim().toLowerCase() as ExportFormat;
+  return allowed.includes(format) ? format : null;
+};
+
+export const invalidFormatResponse = (input: string, allowed = EXPORT_FORMATS) =>
+  errorResponse("INVALID_PARAMETERS", "Invalid format", { details: [`Unknown format "${input}" (use ${allowed.join(", ")})`] });
+
+// --- CSV ---
+// Arrays of values are joined with "; "; arrays of objects (game logs, book lists) don't fit a row and are left out
+const flatten = (value: any, prefix: string, out: Record<string, any>) => {
+  if (Array.isArray(value)) {
+    if (value.every((v) => v === null || typeof v !== "object")) out[prefix] = value.join("; ");
+  } else if (value && typeof value === "object") {
+    Object.entries(value).forEach(([key, v]) => flatten(v, prefix ? `${prefix}.${key}` : key, out));
+  } else {
+    out[prefix] = value;
+  }
+  return out;
+};
+
+const csvCell = (value: any) => {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Columns in first-seen order across every row. A field that's null on one row and an object
+// on another (form) keeps only the object's columns.
+export const toCsv = (items: any[]) => {
+  const rows = items.map((item) => flatten(item, "", {}));
+  const seen = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+  const columns = seen.filter((col) => !seen.some((other) => other.startsWith(`${col}.`)));
+  return [columns, ...rows.map((row) => columns.map((col) => row[col]))]
+    .map((cells) => cells.map(csvCell).join(","))
+    .join("\r\n") + "\r\n";
+};
+
+// --- ICALENDAR ---
+export interface CalendarGame {
+  id: string;
+  start: string;    // ISO start time from ESPN
+  status: string;
+  home: { code: string; name: string };
+  away: { code: string; name: string };
+  market: ParsedMarket | null;
+}
+
+const GAME_MINUTES = 150;
+
+const icsDate = (at: Date) => at.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+const icsText = (text: string) => text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+// RFC 5545: lines longer than 75 octets continue on the next line after a space
+const fold = (line: string) => {
+  const parts: string[] = [];
+  let current = "";
+  for (const char of line) {
+    const limit = parts.length ? 74 : 75;
+    if (Buffer.byteLength(current + char) > limit) {
+      parts.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  return [...parts, current].join("\r\n ");
+};
+
+const starterText = (starters: StarterMap, team: string) => {
+  const entry = starters[team];
+  if (!entry?.goalie) return `${team} TBD`;
+  return `${team} ${entry.goalie.name} (${entry.status})`;
+};
+
+// The favorite's moneyline from the parsed prices ("TOR -150"); a book's own summary
+// (ESPN's `details`) only when neither price is there. Feed books have no summary at all.
+const moneylineText = (market: ParsedMarket, home: string, away: string) => {
+  const sides = ([["home", home, market.moneyline.home], ["away", away, market.moneyline.away]] as const)
+    .filter(([, , price]) => price !== null);
+  if (!sides.length) return market.details || "Moneyline N/A";
+  const [, code, price] = sides.find(([side]) => side === market.favorite) || sides[0];
+  return `${code} ${price! > 0 ? `+${price}` : price}`;
+};
+
+const lineText = (game: CalendarGame) => {
+  const { market } = game;
+  if (!market || market.missing.includes("all")) return "Line: OFF";
+  const parts = [moneylineText(market, game.home.code, game.away.code), market.total.line !== null ? `O/U ${market.total.line}` : "no total"];
+  return `Line: ${parts.join(", ")}${market.provider ? ` (${market.provider})` : ""}`;
+};
+
+const gameEvent = (game: CalendarGame, starters: StarterMap, stamp: string) => {
+  const start = new Date(game.start);
+  const end = new Date(start.getTime() + GAME_MINUTES * 60000);
+  const description = [
+    `${game.away.name} at ${game.home.name}`,
+    `Starters: ${starterText(starters, game.away.code)} vs ${starterText(starters, game.home.code)}`,
+    lineText(game),
+    `Status: ${game.status}`,
+  ].join("\n");
+  return [
+    "BEGIN:VEVENT",
+    `UID:${game.id}@savant-nhl`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${icsDate(start)}`,
+    `DTEND:${icsDate(end)}`,
+    `SUMMARY:${icsText(`${game.away.code} @ ${game.home.code}`)}`,
+    `DESCRIPTION:${icsText(description)}`,
+    "END:VEVENT",
+  ];
+};
+
+export const toIcs = (name: string, games: CalendarGame[], starters: StarterMap) => {
+  const stamp = icsDate(new Date());
+  return [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Savant Math Engine//NHL//EN",
+    "CALSCALE:GREGORIAN",
+    `X-WR-CALNAME:${icsText(name)}`,
+    ...games.flatMap((game) => gameEvent(game, starters, stamp)),
+    "END:VCALENDAR",
+  ].map(fold).join("\r\n") + "\r\n";
+};
+
+// --- RESPONSES ---
+// e.g. nhl-odds-2024-11-14.csv (today, Eastern, without a date)
+export const exportFilename = (base: string, date: string | undefined, format: ExportFormat) => {
+  const parsed = parseDateParam(date);
+  return `${base}-${parsed ? easternDate(parsed) : todayEastern()}.${format}`;
+};
+
+export const exportResponse = (format: ExportFormat, filename: string, content: string, cacheControl?: string): HandlerResponse => ({
+  statusCode: 200,
+  headers: {
+    "Content-Type": CONTENT_TYPES[format],
+    "Content-Disposition": `attachment; filename="${filename}"`,
+    "Access-Control-Allow-Origin": "*",
+    ...(cacheControl ? { "Cache-Control": cacheControl } : {}),
+  },
+  body: content,
+});
@@ -0,0 +1,108 @@
+// --- SCHEDULE FATIGUE ---
+// Reads each team's last week from the ESPN scoreboard (one `dates=` range request)
+// and works out rest, back-to-backs, workload and travel across time zones.
+// The result carries goal-rate multipliers that matchupRates applies, so every
+// win-probability output (predict, simulate, slate, edges, live) picks them up.
+import { SourceMeta } from "./cache";
+import { loadScoreboardRange } from "./sources";
+import { parseDateParam } from "./season";
+import { easternDate, todayEastern } from "./starters";
+import { normalizeTeamCode, resolveTeam } from "./teams";
+
+const WINDOW_DAYS = 7;
+
+// --- ADJUSTMENTS ---
+// Multipliers on a team's own goal rate (offense) and on the rate it allows (defense)
+const FATIGUE = {
+  backToBack: 0.04,   // Second night: -4% goals for, +4% goals against
+  heavyWeek: 0.02,    // 4+ games in the last 7 days
+  heavyWeekGames: 4,
+  travel: 0.02,       // 2+ time zones crossed since the last game
+  travelZones: 2,
+};
+
+export interface TeamFatigue {
+  team: string;
+  lastGame: string | null;        // YYYY-MM-DD (Eastern) of the previous game in the window
+  restDays: number | null;        // Full days off before this game (0 = back-to-back). Null: no game in the last 7 days
+  backToBack: boolean;
+  gamesLast7: number;
+  timezonesCrossed: number;       // Hours between the previous arena and this one
+  travelDirection: "east" | "west" | null;
+  adjustment: { offense: number; defense: number };
+}
+
+const compact = (date: Date) => date.toISOString().split("T")[0].replace(/-/g, "");
+
+const shiftDays = (day: string, days: number) => {
+  const parsed = parseDateParam(day)!;
+  parsed.setUTCDate(parsed.getUTCDate() + days);
+  return parsed;
+};
+
+const daysBetween = (a: string, b: string) =>
+  Math.round((parseDateParam(b)!.getTime() - parseDateParam(a)!.getTime()) / 86400000);
+
+// Arena UTC offset in hours on a given day ("GMT-5" -> -5, "GMT+5:30" -> 5.5)
+const utcOffset = (timeZone: string, at: Date) => {
+  const label = new Intl.DateTimeFormat("en-US", { timeZone, timeZoneName: "shortOffset" })
+    .formatToParts(at).find((part) => part.type === "timeZoneName")?.value || "GMT";
+  const match = label.match(/GMT([+-])(\d+)(?::(\d+))?/);
+  if (!match) return 0;
+  const hours = parseInt(match[2]) + (match[3] ? parseInt(match[3]) / 60 : 0);
+  return match[1] === "-" ? -hours : hours;
+};
+
+export interface RecentGames {
+  day: string;                                          // The game day being priced (YYYY-MM-DD, Eastern)
+  games: { day: string; home: string; away: string }[];
+}
+
+// --- LOADER ---
+// The week before `date` plus the day itself (so today's venue is known). Date defaults to today (Eastern).
+export const loadRecentGames = async (date?: string, sources?: SourceMeta[]): Promise<RecentGames> => {
+  const day = date && parseDateParam(date) ? easternDate(parseDateParam(date)!) : todayEastern();
+  const board = await loadScoreboardRange(compact(shiftDays(day, -WINDOW_DAYS)), compact(parseDateParam(day)!), sources);
+  const games = (board.events || []).map((evt: any) => {
+    const competitors = evt.competitions?.[0]?.competitors || [];
+    const code = (homeAway: string) => normalizeTeamCode(competitors.find((c: any) => c.homeAway === homeAway)?.team?.abbreviation);
+    return { day: easternDate(new Date(evt.date)), home: code("home"), away: code("away") };
+  });
+  return { day, games };
+};
+
+// --- FACTORS ---
+// `venueTeam` is the home side of the game being priced (its arena sets the time zone)
+export const teamFatigue = (recent: RecentGames, team: string, venueTeam: string): TeamFatigue => {
+  const before = recent.games
+    .filter((g) => (g.home === team || g.away === team) && g.day < recent.day)
+    .sort((a, b) => a.day.localeCompare(b.day));
+  const last = before[before.length - 1] || null;
+
+  const restDays = last ? daysBetween(last.day, recent.day) - 1 : null;
+  const backToBack = restDays === 0;
+  const gamesLast7 = before.length;
+
+  // No game in the window -> assume the team is coming from home
+  const at = parseDateParam(recent.day)!;
+  const fromZone = resolveTeam(last ? last.home : team)?.timezone;
+  const toZone = resolveTeam(venueTeam)?.timezone;
+  const shift = fromZone && toZone ? utcOffset(toZone, at) - utcOffset(fromZone, at) : 0;
+  const timezonesCrossed = Math.abs(shift);
+
+  let penalty = 0;
+  if (backToBack) penalty += FATIGUE.backToBack;
+  if (gamesLast7 >= FATIGUE.heavyWeekGames) penalty += FATIGUE.heavyWeek;
+  if (timezonesCrossed >= FATIGUE.travelZones) penalty += FATIGUE.travel;
+
+  return {
+    team,
+    lastGame: last?.day || null,
+    restDays,
+    backToBack,
+    gamesLast7,
+    timezonesCrossed,
+    travelDirection: shift > 0 ? "east" : shift < 0 ? "west" : null,
+    adjustment: { offense: 1 - penalty, defense: 1 + penalty },
+  };
+};
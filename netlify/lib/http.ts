@@ -0,0 +1,157 @@
+// --- UPSTREAM HTTP CLIENT ---
+// Every upstream GET (MoneyPuck, ESPN, NHL) goes through one swappable client:
+//   - live: axios
+//   - record: live, and each response is also written to a fixture directory
+//   - replay: fixture files only, never the network (tests, offline development)
+// SAVANT_HTTP_MODE=record|replay with SAVANT_FIXTURE_DIR picks the mode at startup,
+// e.g. `SAVANT_HTTP_MODE=record SAVANT_FIXTURE_DIR=tests/fixtures/base netlify dev`.
+// Live calls time out and are retried with backoff; whatever still fails reaches the
+// caller as an UpstreamError (see lib/errors).
+import axios from "axios";
+import { promises as fs } from "fs";
+import path from "path";
+import { UpstreamError } from "./errors";
+
+export interface HttpClient {
+  name: string;
+  get(url: string): Promise<{ data: any }>;
+}
+
+// --- TIMEOUTS & RETRIES ---
+// Worst case per URL: 2 attempts of 2s plus up to 0.375s of backoff (0.25s with jitter). Handlers fetch in at most two
+// parallel rounds (the board, then the lines priced off it), which keeps a request that hits
+// the worst case on every upstream inside Netlify's 10s function limit.
+export const RETRY_POLICY = {
+  timeoutMs: 2000,
+  retries: 1,
+  baseDelayMs: 250,
+};
+
+export const AXIOS_CONFIG = {
+  timeout: RETRY_POLICY.timeoutMs,
+  headers: {
+    'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+    'Accept': 'application/json,text/csv'
+  }
+};
+
+// --- FIXTURE FILES ---
+// One file per URL, named after it so fixtures can be found and edited by hand.
+// Text bodies (CSV) are stored as-is in .txt, JSON bodies as .json.
+export const fixtureName = (url: string) => url.replace(/^https?:\/\//, "").replace(/[^a-zA-Z0-9_.=-]+/g, "_");
+
+const readFixture = async (dir: string, url: string) => {
+  const base = path.join(dir, fixtureName(url));
+  try {
+    return JSON.parse(await fs.readFile(`${base}.json`, "utf8"));
+  } catch (e) {
+    if ((e as any).code !== "ENOENT") throw e;
+  }
+  try {
+    return await fs.readFile(`${base}.txt`, "utf8");
+  } catch (e) {
+    return undefined;
+  }
+};
+
+const writeFixture = async (dir: string, url: string, data: any) => {
+  const base = path.join(dir, fixtureName(url));
+  await fs.mkdir(dir, { recursive: true });
+  if (typeof data === "string") await fs.writeFile(`${base}.txt`, data);
+  else await fs.writeFile(`${base}.json`, JSON.stringify(data, null, 2));
+};
+
+const TIMEOUT_CODES = new Set(["ECONNABORTED", "ETIMEDOUT"]);
+const TRANSIENT_CODES = new Set(["ECONNRESET", "ECONNREFUSED", "EPIPE", "EAI_AGAIN"]);
+
+const isTimeout = (error: any) => TIMEOUT_CODES.has(error?.code);
+
+// Timeouts, dropped connections, 429 and 5xx are worth another try; other 4xx and missing fixtures aren't
+export const isRetryable = (error: any) => {
+  const status = error?.response?.status;
+  if (status) return status === 429 || status >= 500;
+  return isTimeout(error) || TRANSIENT_CODES.has(error?.code);
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export const withRetries = (inner: HttpClient, policy = RETRY_POLICY): HttpClient => ({
+  name: inner.name,
+  get: async (url) => {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await inner.get(url);
+      } catch (error) {
+        if (attempt >= policy.retries || !isRetryable(error)) throw error;
+        const delay = policy.baseDelayMs * 2 ** attempt * (1 + Math.random() * 0.5);
+        console.warn(`Retrying ${url} in ${Math.round(delay)}ms (${String(error)})`);
+        await sleep(delay);
+      }
+    }
+  },
+});
+
+const toUpstreamError = (url: string, error: any) => {
+  if (error instanceof UpstreamError) return error;
+  const host = url.replace(/^https?:\/\//, "").split("/")[0];
+  const status = error?.response?.status ?? null;
+  if (isTimeout(error)) return new UpstreamError(url, "UPSTREAM_TIMEOUT", `${host} timed out after ${RETRY_POLICY.timeoutMs}ms`);
+  return new UpstreamError(url, "UPSTREAM_ERROR", `${host} failed: ${status ? `HTTP ${status}` : error?.message || String(error)}`, status);
+};
+
+// --- CLIENTS ---
+export const createAxiosClient = (): HttpClient => ({
+  name: "live",
+  get: async (url) => {
+    const res = await axios.get(url, AXIOS_CONFIG);
+    return { data: res.data };
+  },
+});
+
+export const createRecordingClient = (dir: string, inner: HttpClient = createAxiosClient()): HttpClient => ({
+  name: `record:${dir}`,
+  get: async (url) => {
+    const res = await inner.get(url);
+    await writeFixture(dir, url, res.data);
+    return res;
+  },
+});
+
+// Directories are searched in order, so a scenario can override a few files of a shared base.
+// A URL with no fixture fails like a 404 would.
+export const createReplayClient = (dirs: string | string[]): HttpClient => {
+  const searched = Array.isArray(dirs) ? dirs : [dirs];
+  return {
+    name: `replay:${searched.join(",")}`,
+    get: async (url) => {
+      for (const dir of searched) {
+        const data = await readFixture(dir, url);
+        if (data !== undefined) return { data };
+      }
+      throw new Error(`No fixture for ${url} (${fixtureName(url)})`);
+    },
+  };
+};
+
+const fromEnv = (): HttpClient => {
+  const dir = process.env.SAVANT_FIXTURE_DIR || "fixtures";
+  if (process.env.SAVANT_HTTP_MODE === "record") return createRecordingClient(dir, withRetries(createAxiosClient()));
+  if (process.env.SAVANT_HTTP_MODE === "replay") return createReplayClient(dir);
+  return withRetries(createAxiosClient());
+};
+
+let client: HttpClient = fromEnv();
+
+export const setHttpClient = (next: HttpClient) => {
+  client = next;
+};
+
+export const getHttpClient = () => client;
+
+export const httpGet = async (url: string) => {
+  try {
+    return await client.get(url);
+  } catch (error) {
+    throw toUpstreamError(url, error);
+  }
+};
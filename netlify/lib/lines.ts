@@ -0,0 +1,180 @@
+// --- LINE HISTORY ---
+// Each scoreboard fetch records, per ESPN gameId:
+//   - the closing line: the last moneyline/total seen before puck drop (graded by the backtest)
+//   - a snapshot series for every book ESPN lists: a new point whenever one of its prices changes,
+//     so each book's opener and every move are kept
+// Moves are annotated with starter-status changes from lib/starters in the same window.
+import { parseEspnMarket, ParsedMarket } from "./odds";
+import { normalizeTeamCode } from "./teams";
+import { readRecord, updateRecord, writeRecord } from "./store";
+import { easternDate, loadStarterLog, StarterChange } from "./starters";
+
+export interface ClosingLine {
+  gameId: string;
+  date: string;
+  home: string;
+  away: string;
+  provider: string | null;
+  recordedAt: string;
+  moneyline: { home: number | null; away: number | null };
+  total: { line: number | null; over: number | null; under: number | null };
+}
+
+export interface OddsSnapshot {
+  at: string;        // First fetch with these prices
+  lastSeen: string;  // Last fetch with these prices
+  state: string;     // ESPN game state (pre / in)
+  provider: string | null;  // The book; each one has its own series
+  moneyline: { home: number | null; away: number | null; fairHome: number | null };
+  spread: { line: number | null; home: number | null; away: number | null };
+  total: { line: number | null; over: number | null; under: number | null };
+}
+
+export interface OddsHistory {
+  gameId: string;
+  date: string;      // Start time (ISO) from ESPN
+  home: string;
+  away: string;
+  snapshots: OddsSnapshot[];  // Every book, in the order they were seen
+}
+
+// Keeps each book's series bounded for games that get polled all day
+const MAX_SNAPSHOTS = 500;
+
+const closingKey = (gameId: string) => `closing:${gameId}`;
+const historyKey = (gameId: string) => `odds-history:${gameId}`;
+
+const priceKey = (snap: OddsSnapshot) => JSON.stringify([snap.moneyline.home, snap.moneyline.away, snap.spread, snap.total]);
+
+// --- RECORDING ---
+const toSnapshot = (market: ParsedMarket, state: string, now: string): OddsSnapshot => ({
+  at: now,
+  lastSeen: now,
+  state,
+  provider: market.provider,
+  moneyline: { home: market.moneyline.home, away: market.moneyline.away, fairHome: market.moneyline.fairHome },
+  spread: { line: market.spread.home.line, home: market.spread.home.price, away: market.spread.away.price },
+  total: { line: market.total.line, over: market.total.over, under: market.total.under }
+});
+
+// Adds one book's prices to the history, or extends its last snapshot if nothing changed
+const addSnapshot = (history: OddsHistory, snapshot: OddsSnapshot) => {
+  const own = history.snapshots.filter((snap) => snap.provider === snapshot.provider);
+  const last = own[own.length - 1];
+  if (last && priceKey(last) === priceKey(snapshot)) {
+    last.lastSeen = snapshot.at;
+    last.state = snapshot.state;
+    return;
+  }
+  history.snapshots.push(snapshot);
+  if (own.length + 1 > MAX_SNAPSHOTS) history.snapshots.splice(history.snapshots.indexOf(own[1]), 1); // Never drop a book's opener
+};
+
+const recordGame = async (evt: any, now: string) => {
+  const competition = evt.competitions[0];
+  const markets: ParsedMarket[] = competition.odds.map((odds: any) => parseEspnMarket(odds));
+  const side = (homeAway: string) => normalizeTeamCode(competition.competitors.find((c: any) => c.homeAway === homeAway)?.team?.abbreviation);
+  const gameId = String(evt.id);
+  const state = evt.status?.type?.state || "pre";
+
+  const history = await updateRecord<OddsHistory>(historyKey(gameId), (current) => {
+    const next = current || { gameId, date: evt.date, home: side("home"), away: side("away"), snapshots: [] };
+    markets.forEach((market) => addSnapshot(next, toSnapshot(market, state, now)));
+    return next;
+  });
+
+  // The closing line is the primary (first listed) book's
+  const [market] = markets;
+  if (state === "pre" && market.moneyline.home !== null && market.moneyline.away !== null) {
+    const line: ClosingLine = {
+      gameId,
+      date: evt.date,
+      home: history!.home,
+      away: history!.away,
+      provider: market.provider,
+      recordedAt: now,
+      moneyline: { home: market.moneyline.home, away: market.moneyline.away },
+      total: { line: market.total.line, over: market.total.over, under: market.total.under }
+    };
+    await writeRecord(closingKey(gameId), line);
+  }
+};
+
+// Called on every upstream scoreboard fetch (see lib/sources). Finished games are left alone.
+export const recordLines = async (events: any[]) => {
+  const now = new Date().toISOString();
+  const open = events.filter((evt: any) => evt.status?.type?.state !== "post" && evt.competitions?.[0]?.odds?.[0]);
+  await Promise.all(open.map((evt: any) => recordGame(evt, now)));
+};
+
+export const loadClosingLine = (gameId: string) => readRecord<ClosingLine>(closingKey(String(gameId)));
+
+export const loadOddsHistory = (gameId: string) => readRecord<OddsHistory>(historyKey(String(gameId)));
+
+// --- MOVES ---
+const round = (val: number) => parseFloat(val.toFixed(4));
+
+// Changes between two consecutive snapshots. Moneyline moves are sized by the
+// no-vig home probability; spread and total by the line itself.
+const movesBetween = (prev: OddsSnapshot, next: OddsSnapshot) => {
+  const moves: any[] = [];
+  const span = { from: prev.lastSeen, to: next.at };
+  if (prev.moneyline.fairHome !== null && next.moneyline.fairHome !== null && prev.moneyline.fairHome !== next.moneyline.fairHome) {
+    moves.push({
+      ...span,
+      market: "moneyline",
+      before: { home: prev.moneyline.home, away: prev.moneyline.away },
+      after: { home: next.moneyline.home, away: next.moneyline.away },
+      change: round(next.moneyline.fairHome - prev.moneyline.fairHome), // Home win probability
+      size: Math.abs(next.moneyline.fairHome - prev.moneyline.fairHome)
+    });
+  }
+  (["spread", "total"] as const).forEach((market) => {
+    const before = prev[market].line;
+    const after = next[market].line;
+    if (before === null || after === null || before === after) return;
+    // Half a goal on a line is treated like a 5% move on the moneyline
+    moves.push({ ...span, market, before, after, change: round(after - before), size: Math.abs(after - before) / 10 });
+  });
+  return moves;
+};
+
+// Opening vs current for the primary (first seen) book and for each book, the full series,
+// and the biggest moves across books with any starter news in their window
+export const summarizeHistory = async (history: OddsHistory, limit = 5) => {
+  const day = easternDate(new Date(history.date));
+  const [homeLog, awayLog] = await Promise.all([loadStarterLog(day, history.home), loadStarterLog(day, history.away)]);
+  const starterChanges: StarterChange[] = [...homeLog, ...awayLog].sort((a, b) => a.at.localeCompare(b.at));
+
+  const snaps = history.snapshots;
+  const providers = [...new Set(snaps.map((snap) => snap.provider))];
+  const books = providers.map((provider) => {
+    const series = snaps.filter((snap) => snap.provider === provider);
+    return { provider, opening: series[0], current: series[series.length - 1], snapshotCount: series.length, series };
+  });
+
+  const moves = books
+    .flatMap(({ provider, series }) => series.slice(1).flatMap((snap, i) => movesBetween(series[i], snap).map((move) => ({ provider, ...move }))))
+    .sort((a, b) => b.size - a.size)
+    .slice(0, limit)
+    .map(({ size, ...move }) => ({
+      ...move,
+      starterChanges: starterChanges.filter((c) => c.at > move.from && c.at <= move.to)
+    }));
+
+  const primary = books[0];
+  return {
+    gameId: history.gameId,
+    date: history.date,
+    home: history.home,
+    away: history.away,
+    provider: primary?.provider ?? null,
+    opening: primary?.opening || null,
+    current: primary?.current || null,
+    snapshotCount: snaps.length,
+    books: books.map(({ series, ...book }) => book),
+    biggestMoves: moves,
+    starterChanges,
+    series: snaps
+  };
+};
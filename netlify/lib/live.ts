@@ -0,0 +1,160 @@
+// --- LIVE WIN PROBABILITY ---
+// Re-runs the pregame Poisson model over the time that's left. Each side keeps its
+// pregame goal rate (home ice included, see matchupRates) scaled to the minutes
+// remaining, and the goals still to come are added to the current score.
+// A tie after regulation goes to the same overtime/shootout split as predictMatchup.
+import { LEAGUE, poissonPmf } from "./model";
+import { normalizeTeamCode } from "./teams";
+import { readRecord, updateRecord } from "./store";
+
+const MAX_GOALS = 15;
+
+export interface LiveState {
+  state: string;       // ESPN: pre / in / post
+  period: number;      // 1-3 regulation, 4+ overtime (5 = shootout in the regular season)
+  clock: string;       // Time left in the period ("12:34", or "12.3" in the last minute)
+  homeScore: number;
+  awayScore: number;
+}
+
+export interface GoalRates {
+  homeXg: number;      // Regulation (60 minute) goal rates from matchupRates
+  awayXg: number;
+}
+
+const round = (val: number) => parseFloat(val.toFixed(4));
+
+// "12:34" -> 754 seconds; ESPN switches to tenths in the last minute ("12.3", "0.0").
+// null for anything else: the game can't be priced from it (see unreadableClock).
+export const clockSeconds = (clock: string) => {
+  const minutes = clock?.match(/^(\d+):(\d{2})$/);
+  if (minutes) return parseInt(minutes[1]) * 60 + parseInt(minutes[2]);
+  const seconds = clock?.match(/^(\d{1,2})(\.\d+)?$/);
+  return seconds ? parseFloat(clock) : null;
+};
+
+// A game in progress whose time left can't be read. Callers leave it unpriced
+// (with a warning) rather than guess at the clock.
+export const unreadableClock = (game: LiveState) => game.state === "in" && clockSeconds(game.clock) === null;
+
+export const eventLiveState = (evt: any): LiveState => {
+  const competitors = evt.competitions?.[0]?.competitors || [];
+  const score = (homeAway: string) => parseInt(competitors.find((c: any) => c.homeAway === homeAway)?.score) || 0;
+  return {
+    state: evt.status?.type?.state || "pre",
+    period: evt.status?.period || 0,
+    clock: evt.status?.displayClock || "20:00",
+    homeScore: score("home"),
+    awayScore: score("away"),
+  };
+};
+
+// --- MODEL ---
+// Check unreadableClock first: an unreadable clock is read as the end of the period here.
+export const liveWinProbability = (rates: GoalRates, game: LiveState, playoffs = false) => {
+  const homeShare = rates.homeXg / (rates.homeXg + rates.awayXg);
+  const goals = game.homeScore + game.awayScore;
+
+  if (game.state === "post") {
+    const homeWon = game.homeScore > game.awayScore ? 1 : 0;
+    return { minutesLeft: 0, homeWin: homeWon, awayWin: 1 - homeWon, projected: { home: game.homeScore, away: game.awayScore, total: goals } };
+  }
+
+  // Overtime (or a shootout) in progress: the game is tied and the next goal decides it
+  if (game.state === "in" && game.period >= 4) {
+    let otHome = 0.5;
+    if (playoffs) {
+      otHome = homeShare; // Sudden death until someone scores
+    } else if (game.period === 4) {
+      const otRate = (rates.homeXg + rates.awayXg) * LEAGUE.otRateMultiplier / 60;
+      const pGoal = 1 - Math.exp(-otRate * (clockSeconds(game.clock) ?? 0) / 60);
+      otHome = pGoal * homeShare + (1 - pGoal) * 0.5;
+    }
+    return {
+      minutesLeft: 0,
+      homeWin: round(otHome),
+      awayWin: round(1 - otHome),
+      projected: { home: round(game.homeScore + otHome), away: round(game.awayScore + 1 - otHome), total: goals + 1 },
+    };
+  }
+
+  // 1. REGULATION TIME LEFT
+  const minutesLeft = game.state === "in" ? Math.max(0, (3 - game.period) * 20 + (clockSeconds(game.clock) ?? 0) / 60) : 60;
+  const homeLeft = rates.homeXg * minutesLeft / 60;
+  const awayLeft = rates.awayXg * minutesLeft / 60;
+
+  let homeWin = 0, tie = 0;
+  for (let h = 0; h <= MAX_GOALS; h++) {
+    const ph = poissonPmf(homeLeft, h);
+    for (let a = 0; a <= MAX_GOALS; a++) {
+      const p = ph * poissonPmf(awayLeft, a);
+      const diff = game.homeScore + h - (game.awayScore + a);
+      if (diff > 0) homeWin += p;
+      else if (diff === 0) tie += p;
+    }
+  }
+
+  // 2. OVERTIME (full 3-on-3 period, then a coin-flip shootout; playoffs play until a goal)
+  const otRate = (rates.homeXg + rates.awayXg) * LEAGUE.otRateMultiplier * (LEAGUE.otMinutes / 60);
+  const pOtGoal = 1 - Math.exp(-otRate);
+  const otHome = playoffs ? homeShare : pOtGoal * homeShare + (1 - pOtGoal) * 0.5;
+  const homeMl = homeWin + tie * otHome;
+
+  // Overtime and the shootout always add exactly one goal to the final score
+  return {
+    minutesLeft: round(minutesLeft),
+    homeWin: round(homeMl),
+    awayWin: round(1 - homeMl),
+    regulationTie: round(tie),
+    projected: {
+      home: round(game.homeScore + homeLeft + tie * otHome),
+      away: round(game.awayScore + awayLeft + tie * (1 - otHome)),
+      total: round(goals + homeLeft + awayLeft + tie),
+    },
+  };
+};
+
+// --- STATE LOG ---
+// Live game states seen on scoreboard fetches, per ESPN gameId. A new point is kept when
+// the score, period or state changes, or the clock has run at least two minutes.
+// States with an unreadable clock aren't kept.
+export interface LiveStatePoint extends LiveState {
+  at: string;
+  home: string;
+  away: string;
+}
+
+const MAX_POINTS = 200;
+const CLOCK_STEP = 120;
+
+const liveKey = (gameId: string) => `live-states:${gameId}`;
+
+export const recordLiveStates = async (events: any[]) => {
+  const now = new Date().toISOString();
+  const started = events.filter((evt: any) => ["in", "post"].includes(evt.status?.type?.state));
+  await Promise.all(started.map((evt: any) => updateRecord<LiveStatePoint[]>(liveKey(String(evt.id)), (current) => {
+    const game = eventLiveState(evt);
+    if (unreadableClock(game)) return undefined;
+    const points = current || [];
+    const last = points[points.length - 1];
+    if (last && last.state === "post") return undefined;
+    if (last && last.state === game.state && last.period === game.period && last.homeScore === game.homeScore
+      && last.awayScore === game.awayScore && (clockSeconds(last.clock) ?? 0) - (clockSeconds(game.clock) ?? 0) < CLOCK_STEP) return undefined;
+
+    const competitors = evt.competitions[0].competitors;
+    const team = (homeAway: string) => normalizeTeamCode(competitors.find((c: any) => c.homeAway === homeAway)?.team?.abbreviation);
+    return [...points, { at: now, home: team("home"), away: team("away"), ...game }].slice(-MAX_POINTS);
+  })));
+};
+
+export const loadLiveStates = async (gameId: string) => (await readRecord<LiveStatePoint[]>(liveKey(String(gameId)))) || [];
+
+// Compact timeline: one row per recorded state with the win probability at that moment
+export const winProbabilityTimeline = (rates: GoalRates, points: LiveStatePoint[], playoffs = false) =>
+  points.map((point) => ({
+    at: point.at,
+    period: point.period,
+    clock: point.clock,
+    score: [point.homeScore, point.awayScore],
+    homeWin: liveWinProbability(rates, point, playoffs).homeWin,
+  }));
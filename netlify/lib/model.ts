@@ -0,0 +1,174 @@
+// --- SAVANT MATH ENGINE ---
+// Turns the per-team numbers from getSavantStats into expected goals and
+// win probabilities. Goals are modelled as independent Poisson processes.
+
+// --- LEAGUE BASELINES ---
+// Used to scale team numbers into goal rates (and as a fallback when a stat is missing).
+export const LEAGUE = {
+  goalsPerGame: 3.05,      // Goals per team per game (all situations)
+  xgaPer60: 2.45,          // 5on5 expected goals against per 60
+  ppPercent: 21.0,
+  pkPercent: 79.0,
+  ppOpportunities: 3.0,    // Power plays per team per game
+  homeIce: 0.04,           // +4% goals at home, -4% on the road
+  otRateMultiplier: 2.0,   // 3-on-3 produces roughly twice the 5v5 scoring rate
+  otMinutes: 5,
+};
+
+const MAX_GOALS = 15; // Poisson grid size (P(>15 goals) is negligible)
+
+// --- WEIGHTS ---
+// How far each input moves the goal rates. The defaults reproduce the model as published;
+// callers can tune them per request (see lib/scenarios).
+export interface ModelWeights {
+  goalie: number;       // Share of the opposing goalie's GSAx/60 taken off (1 = all of it)
+  skater: number;       // Scale on how far xGF% and xGA/60 move even-strength scoring from league average
+  homeIce: number;      // Goal-rate edge at home (0.04 = +4% home, -4% away)
+  regression: number;   // 0-1: pull every team and goalie number toward league average first
+}
+
+export const DEFAULT_WEIGHTS: ModelWeights = {
+  goalie: 1,
+  skater: 1,
+  homeIce: LEAGUE.homeIce,
+  regression: 0,
+};
+
+// The slice of getSavantStats output the model reads
+export interface MatchupSide {
+  name: string;
+  xgfPercent: number;
+  xgaPer60: number;
+  ppPercent: number;
+  pkPercent: number;
+  goalie: { name: string; gsax: number; svPct?: number };
+  fatigue?: { adjustment: { offense: number; defense: number } } | null; // From lib/fatigue
+}
+
+// --- HELPERS ---
+export const poissonPmf = (lambda: number, k: number) => {
+  let p = Math.exp(-lambda);
+  for (let i = 1; i <= k; i++) p *= lambda / i;
+  return p;
+};
+
+// Probability -> American odds (e.g. 0.6 -> -150, 0.4 -> +150)
+export const toAmericanOdds = (prob: number) => {
+  if (prob <= 0 || prob >= 1) return null;
+  return prob >= 0.5 ? Math.round(-100 * prob / (1 - prob)) : Math.round(100 * (1 - prob) / prob);
+};
+
+const round = (val: number, digits = 4) => parseFloat(val.toFixed(digits));
+
+// League average plus the input's distance from it, after regression, times `scale`
+const weigh = (value: number, mean: number, weights: ModelWeights, scale = 1) =>
+  mean + (value - mean) * (1 - weights.regression) * scale;
+
+// MoneyPuck rows without special-teams columns produce 0% PP / 100% PK. Treat those as unknown.
+const specialTeams = (side: MatchupSide, weights = DEFAULT_WEIGHTS) => ({
+  pp: side.ppPercent > 0 && side.ppPercent < 100 ? weigh(side.ppPercent, LEAGUE.ppPercent, weights) : LEAGUE.ppPercent,
+  pk: side.pkPercent > 0 && side.pkPercent < 100 ? weigh(side.pkPercent, LEAGUE.pkPercent, weights) : LEAGUE.pkPercent,
+});
+
+// --- EXPECTED GOALS ---
+// Even strength: league rate scaled by own xGF% (offense) and the opponent's xGA/60 (defense).
+// Power play: own PP% blended with the opponent's PK%, times the average number of chances.
+// Goalie: the opposing starter's GSAx/60 comes straight off the total.
+// Fatigue: the attacker's offense and the defender's defense multipliers scale the result.
+// Weights scale each input's distance from league average (see ModelWeights).
+const expectedGoalsFor = (attack: MatchupSide, defend: MatchupSide, weights = DEFAULT_WEIGHTS) => {
+  const evBase = LEAGUE.goalsPerGame - LEAGUE.ppOpportunities * (LEAGUE.ppPercent / 100);
+  const offense = weigh(attack.xgfPercent || 50, 50, weights, weights.skater) / 50;
+  const defense = weigh(defend.xgaPer60 || LEAGUE.xgaPer60, LEAGUE.xgaPer60, weights, weights.skater) / LEAGUE.xgaPer60;
+  const evenStrength = evBase * offense * defense;
+
+  const conversion = (specialTeams(attack, weights).pp + (100 - specialTeams(defend, weights).pk)) / 2 / 100;
+  const powerPlay = LEAGUE.ppOpportunities * conversion;
+
+  const goalie = weigh(defend.goalie?.gsax || 0, 0, weights, weights.goalie);
+  const fatigue = (attack.fatigue?.adjustment.offense ?? 1) * (defend.fatigue?.adjustment.defense ?? 1);
+
+  return { evenStrength, powerPlay, goalie, fatigue, total: (evenStrength + powerPlay - goalie) * fatigue };
+};
+
+// Regulation goal rates for both sides, home ice included. Shared with the simulator.
+export const matchupRates = (home: MatchupSide, away: MatchupSide, weights = DEFAULT_WEIGHTS) => {
+  const homeParts = expectedGoalsFor(home, away, weights);
+  const awayParts = expectedGoalsFor(away, home, weights);
+  return {
+    homeParts,
+    awayParts,
+    homeXg: Math.max(0.5, homeParts.total * (1 + weights.homeIce)),
+    awayXg: Math.max(0.5, awayParts.total * (1 - weights.homeIce)),
+  };
+};
+
+// --- MAIN ---
+export const predictMatchup = (home: MatchupSide, away: MatchupSide, weights = DEFAULT_WEIGHTS) => {
+  const { homeParts, awayParts, homeXg, awayXg } = matchupRates(home, away, weights);
+
+  // 1. REGULATION (60 minutes)
+  let homeWin = 0, awayWin = 0, tie = 0;
+  let mostLikely = { home: 0, away: 0, prob: 0 };
+  for (let h = 0; h <= MAX_GOALS; h++) {
+    const ph = poissonPmf(homeXg, h);
+    for (let a = 0; a <= MAX_GOALS; a++) {
+      const p = ph * poissonPmf(awayXg, a);
+      if (h > a) homeWin += p;
+      else if (a > h) awayWin += p;
+      else tie += p;
+      if (p > mostLikely.prob) mostLikely = { home: h, away: a, prob: p };
+    }
+  }
+
+  // 2. OVERTIME (3-on-3, first goal wins, then a coin-flip shootout)
+  const otRate = (homeXg + awayXg) * LEAGUE.otRateMultiplier * (LEAGUE.otMinutes / 60);
+  const pOtGoal = 1 - Math.exp(-otRate);
+  const homeShare = homeXg / (homeXg + awayXg);
+  const otHome = pOtGoal * homeShare + (1 - pOtGoal) * 0.5;
+
+  // 3. MONEYLINE (regulation + overtime)
+  const homeMl = homeWin + tie * otHome;
+  const awayMl = 1 - homeMl;
+
+  const describeSide = (side: MatchupSide, parts: ReturnType<typeof expectedGoalsFor>) => ({
+    team: side.name,
+    xgfPercent: side.xgfPercent,
+    xgaPer60: side.xgaPer60,
+    ppPercent: specialTeams(side, weights).pp,
+    pkPercent: specialTeams(side, weights).pk,
+    goalie: side.goalie?.name,
+    goalieGsaxPer60: side.goalie?.gsax || 0,
+    components: {
+      evenStrength: round(parts.evenStrength, 3),
+      powerPlay: round(parts.powerPlay, 3),
+      opposingGoalie: round(-parts.goalie, 3),
+      fatigueMultiplier: round(parts.fatigue, 3),
+    },
+  });
+
+  return {
+    model: "poisson-v1",
+    expectedGoals: { home: round(homeXg, 2), away: round(awayXg, 2), total: round(homeXg + awayXg, 2) },
+    mostLikelyScore: { home: mostLikely.home, away: mostLikely.away, probability: round(mostLikely.prob) },
+    regulation: { homeWin: round(homeWin), awayWin: round(awayWin), tie: round(tie) },
+    overtime: {
+      // Conditional on the game reaching overtime
+      homeWin: round(otHome),
+      awayWin: round(1 - otHome),
+      decidedInOt: round(pOtGoal),
+    },
+    moneyline: {
+      home: round(homeMl),
+      away: round(awayMl),
+      homeFairOdds: toAmericanOdds(homeMl),
+      awayFairOdds: toAmericanOdds(awayMl),
+    },
+    inputs: {
+      home: describeSide(home, homeParts),
+      away: describeSide(away, awayParts),
+      league: LEAGUE,
+      weights,
+    },
+  };
+};
@@ -0,0 +1,165 @@
+// --- ODDS MATH & MARKET BUILDER ---
+// Turns one bookmaker's prices (ESPN's odds payload, or any provider in lib/providers) into a
+// structured market: American prices per side, implied probabilities, bookmaker overround and
+// no-vig fair probabilities.
+// Missing prices are null and listed in `missing`, never a placeholder string.
+
+// --- PRICE HELPERS ---
+// Accepts -150, "+130" and "EVEN". Anything that isn't a price (e.g. "o6.5") is null.
+export const parseAmerican = (value: any): number | null => {
+  if (value === undefined || value === null || value === "") return null;
+  if (typeof value === "string" && value.trim().toUpperCase() === "EVEN") return 100;
+  const num = typeof value === "number" ? value : parseFloat(String(value).replace(/[^\d.+-]/g, ""));
+  if (isNaN(num) || Math.abs(num) < 100) return null;
+  return num;
+};
+
+// Accepts 6.5, "6.5", "o6.5", "u6.5", "-1.5"
+export const parseLine = (value: any): number | null => {
+  if (value === undefined || value === null || value === "") return null;
+  const num = typeof value === "number" ? value : parseFloat(String(value).replace(/^[ou]/i, ""));
+  return isNaN(num) ? null : num;
+};
+
+export const impliedProbability = (american: number) =>
+  american < 0 ? -american / (-american + 100) : 100 / (american + 100);
+
+// Inverse of impliedProbability, rounded to a whole price (0.6 -> -150, 0.4 -> +150)
+export const americanFromProbability = (prob: number) =>
+  Math.round(prob >= 0.5 ? (-100 * prob) / (1 - prob) : (100 * (1 - prob)) / prob);
+
+// Decimal payout per unit staked (stake included)
+export const decimalOdds = (american: number) =>
+  american < 0 ? 1 + 100 / -american : 1 + american / 100;
+
+const round = (val: number) => parseFloat(val.toFixed(4));
+
+// Two-way market: implied probabilities, overround and proportional de-vig
+export const priceTwoWay = (a: number | null, b: number | null) => {
+  if (a === null || b === null) return { implied: null, overround: null, fair: null };
+  const pa = impliedProbability(a);
+  const pb = impliedProbability(b);
+  const book = pa + pb;
+  return {
+    implied: [round(pa), round(pb)] as [number, number],
+    overround: round(book - 1),
+    fair: [round(pa / book), round(pb / book)] as [number, number],
+  };
+};
+
+// --- MARKET BUILDER ---
+// One bookmaker's prices, from any provider (see lib/providers). Missing prices are null.
+export interface MarketPrices {
+  homeMl: number | null;
+  awayMl: number | null;
+  homeSpreadLine: number | null;
+  awaySpreadLine: number | null;
+  homeSpreadPrice: number | null;
+  awaySpreadPrice: number | null;
+  totalLine: number | null;
+  overPrice: number | null;
+  underPrice: number | null;
+}
+
+export interface MarketInfo {
+  provider: string | null;
+  details: string | null;
+  favorite?: "home" | "away" | null;  // The book's own flag, used when the moneylines can't tell
+}
+
+const EMPTY_PRICES: MarketPrices = {
+  homeMl: null, awayMl: null,
+  homeSpreadLine: null, awaySpreadLine: null, homeSpreadPrice: null, awaySpreadPrice: null,
+  totalLine: null, overPrice: null, underPrice: null,
+};
+
+export const buildMarket = (prices: MarketPrices | null, info: MarketInfo = { provider: null, details: null }) => {
+  const p = prices || EMPTY_PRICES;
+  const missing: string[] = [];
+  const need = (value: number | null, label: string) => {
+    if (value === null) missing.push(label);
+  };
+  need(p.homeMl, "moneyline.home");
+  need(p.awayMl, "moneyline.away");
+  need(p.homeSpreadLine, "spread.line");
+  need(p.homeSpreadPrice, "spread.home");
+  need(p.awaySpreadPrice, "spread.away");
+  need(p.totalLine, "total.line");
+  need(p.overPrice, "total.over");
+  need(p.underPrice, "total.under");
+
+  const ml = priceTwoWay(p.homeMl, p.awayMl);
+  const totals = priceTwoWay(p.overPrice, p.underPrice);
+
+  let favorite: "home" | "away" | null = null;
+  if (p.homeMl !== null && p.awayMl !== null && p.homeMl !== p.awayMl) favorite = p.homeMl < p.awayMl ? "home" : "away";
+  else favorite = info.favorite ?? null;
+
+  return {
+    available: !!prices && missing.length === 0,
+    provider: info.provider,
+    details: info.details,
+    favorite,
+    moneyline: {
+      home: p.homeMl,
+      away: p.awayMl,
+      impliedHome: ml.implied?.[0] ?? null,
+      impliedAway: ml.implied?.[1] ?? null,
+      overround: ml.overround,
+      fairHome: ml.fair?.[0] ?? null,
+      fairAway: ml.fair?.[1] ?? null,
+    },
+    spread: {
+      home: { line: p.homeSpreadLine, price: p.homeSpreadPrice },
+      away: { line: p.awaySpreadLine ?? (p.homeSpreadLine !== null ? -p.homeSpreadLine : null), price: p.awaySpreadPrice },
+    },
+    total: {
+      line: p.totalLine,
+      over: p.overPrice,
+      under: p.underPrice,
+      overround: totals.overround,
+      fairOver: totals.fair?.[0] ?? null,
+      fairUnder: totals.fair?.[1] ?? null,
+    },
+    missing: prices ? missing : ["all"],
+  };
+};
+
+// --- ESPN PARSER ---
+// ESPN has shipped two shapes: the legacy flat one (homeTeamOdds.moneyLine, overOdds, ...)
+// and the newer nested one (moneyline.home.close.odds, total.over.close.line, ...).
+// Prefer the closing/current number, then the open.
+const pick = (node: any, field: "odds" | "line") => node?.close?.[field] ?? node?.current?.[field] ?? node?.open?.[field];
+
+export const parseEspnMarket = (odds: any) => {
+  if (!odds) return buildMarket(null);
+  // ESPN's flat `spread` is from the home side's perspective
+  const homeSpreadLine = parseLine(pick(odds.pointSpread?.home, "line") ?? odds.spread);
+  return buildMarket({
+    homeMl: parseAmerican(odds.homeTeamOdds?.moneyLine ?? pick(odds.moneyline?.home, "odds")),
+    awayMl: parseAmerican(odds.awayTeamOdds?.moneyLine ?? pick(odds.moneyline?.away, "odds")),
+    homeSpreadLine,
+    awaySpreadLine: parseLine(pick(odds.pointSpread?.away, "line")),
+    homeSpreadPrice: parseAmerican(odds.homeTeamOdds?.spreadOdds ?? pick(odds.pointSpread?.home, "odds")),
+    awaySpreadPrice: parseAmerican(odds.awayTeamOdds?.spreadOdds ?? pick(odds.pointSpread?.away, "odds")),
+    totalLine: parseLine(odds.overUnder ?? pick(odds.total?.over, "line")),
+    overPrice: parseAmerican(odds.overOdds ?? pick(odds.total?.over, "odds")),
+    underPrice: parseAmerican(odds.underOdds ?? pick(odds.total?.under, "odds")),
+  }, {
+    provider: odds.provider?.name || null,
+    details: odds.details || null,
+    favorite: odds.homeTeamOdds?.favorite ? "home" : odds.awayTeamOdds?.favorite ? "away" : null,
+  });
+};
+
+export type ParsedMarket = ReturnType<typeof buildMarket>;
+
+// --- BET SIZING ---
+// Expected profit per unit staked at the given price
+export const expectedValue = (prob: number, american: number) => prob * decimalOdds(american) - 1;
+
+// Full-Kelly stake as a fraction of bankroll (negative = no bet)
+export const kellyFraction = (prob: number, american: number) => {
+  const b = decimalOdds(american) - 1;
+  return (b * prob - (1 - prob)) / b;
+};
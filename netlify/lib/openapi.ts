@@ -0,0 +1,506 @@
+// --- OPENAPI DOCUMENT ---
+// OpenAPI 3.1 description of savant-api, goalie-stats, skater-stats and nhl-odds, served by the
+// `openapi` function for client generators. Schemas mirror lib/types; when a response
+// shape changes there, change it here too.
+
+// --- SCHEMA HELPERS ---
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+const num = { type: "number" };
+const int = { type: "integer" };
+const str = { type: "string" };
+const bool = { type: "boolean" };
+const nullable = (schema: any) => (schema.$ref ? { oneOf: [schema, { type: "null" }] } : { ...schema, type: [schema.type, "null"] });
+const list = (items: any) => ({ type: "array", items });
+const map = (values: any) => ({ type: "object", additionalProperties: values });
+
+// Every listed property is required: the handlers send nulls rather than dropping keys
+const object = (properties: Record<string, any>, optional: string[] = []) => ({
+  type: "object",
+  properties,
+  required: Object.keys(properties).filter((key) => !optional.includes(key)),
+});
+
+const json = (schema: any, description: string) => ({ description, content: { "application/json": { schema } } });
+
+// ?format= downloads (lib/exports) next to the JSON body
+const DOWNLOADS: Record<string, any> = {
+  csv: { "text/csv": { schema: { type: "string", description: "One row per item, nested fields as dotted columns" } } },
+  ics: { "text/calendar": { schema: { type: "string", description: "One event per game, starters and line in the description" } } },
+};
+const withDownloads = (response: any, formats: string[]) => ({
+  ...response,
+  content: { ...response.content, ...Object.assign({}, ...formats.map((f) => DOWNLOADS[f])) },
+});
+
+// --- PARAMETERS ---
+const query = (name: string, description: string, schema: any = str) => ({ name, in: "query", required: false, description, schema });
+
+const SEASON_PARAMS = [
+  query("season", "Season start year, e.g. 2024 for 2024-25 (defaults to the season of `date`, or the current one)", int),
+  query("type", "Game type", { type: "string", enum: ["regular", "playoffs"] }),
+  query("blend", "Top up small current samples with the prior season (true/1)", str),
+  query("date", "Game day, YYYY-MM-DD or YYYYMMDD (defaults to today, Eastern; anything else is a 400)", { type: "string", pattern: "^\\d{4}-?\\d{2}-?\\d{2}$" }),
+];
+
+const FORMAT_PARAM = (formats: string[], description = "Response format; csv and ics download as files") =>
+  query("format", description, { type: "string", enum: ["json", ...formats], default: "json" });
+
+const TEAM_PARAM = (name: string, description: string) => query(name, `${description}: code, city, nickname or former code (see action=teams)`);
+
+// --- SCHEMAS ---
+const schemas: Record<string, any> = {
+  SourceMeta: object({
+    source: { type: "string", enum: ["moneypuck", "espn", "nhl-schedule", "odds-feed"] },
+    key: str,
+    fetchedAt: nullable(str),
+    ageSeconds: nullable(num),
+    stale: bool,
+    fallback: bool,
+    error: str,
+    warnings: list(str),
+  }, ["error", "warnings"]),
+  // lib/errors: `code` is stable, `error` is for people
+  Error: object({
+    error: str,
+    code: {
+      type: "string",
+      enum: [
+        "MISSING_PARAMETERS", "INVALID_PARAMETERS", "UNKNOWN_TEAM", "GOALIE_NOT_FOUND", "AMBIGUOUS_GOALIE",
+        "NO_STATS", "NO_GAME_FOUND", "CONFIG_NOT_FOUND", "CONFIG_EXISTS", "UNAUTHORIZED", "UPSTREAM_TIMEOUT", "UPSTREAM_ERROR", "INTERNAL",
+      ],
+    },
+    details: list(str),
+    sources: list(ref("SourceMeta")),
+  }, ["details", "sources"]),
+  UnknownTeam: object({ error: str, code: { type: "string", const: "UNKNOWN_TEAM" }, unknown: list(str), validCodes: list(str) }),
+  // lib/warnings: inputs a successful response was built without
+  Warning: object({
+    code: {
+      type: "string",
+      enum: [
+        "SOURCE_UNAVAILABLE", "SOURCE_FALLBACK", "SOURCE_STALE", "UPSTREAM_DATA", "ODDS_NOT_FOUND",
+        "ODDS_INCOMPLETE", "TOTAL_DEFAULTED", "FATIGUE_UNAVAILABLE", "FORM_UNAVAILABLE", "LIVE_CLOCK_UNREADABLE", "RATINGS_UNAVAILABLE",
+      ],
+    },
+    message: str,
+    source: str,
+    game: str,
+  }, ["source", "game"]),
+  SeasonInfo: object({
+    season: { oneOf: [int, { type: "string", const: "by-date" }] },
+    type: { type: "string", enum: ["regular", "playoffs"] },
+    blended: bool,
+  }, ["blended"]),
+
+  // Schedule
+  GameTeam: object({ name: str, code: str, score: str, logo: str }),
+  Game: object({ id: str, date: str, status: str, homeTeam: ref("GameTeam"), awayTeam: ref("GameTeam") }),
+
+  // Matchups
+  GoalieSummary: object({
+    name: str,
+    playerId: nullable(str),
+    gsax: { ...num, description: "GSAx per 60" },
+    gaa: num,
+    svPct: num,
+    status: { ...str, description: "confirmed, probable, projected-by-usage, unknown or requested" },
+    lastSeen: nullable(str),
+    backToBack: nullable(bool),
+  }),
+  TeamFatigue: object({
+    team: str,
+    lastGame: nullable(str),
+    restDays: nullable(int),
+    backToBack: bool,
+    gamesLast7: int,
+    timezonesCrossed: num,
+    travelDirection: nullable({ type: "string", enum: ["east", "west"] }),
+    adjustment: object({ offense: num, defense: num }),
+  }),
+  TeamStats: object({
+    name: str,
+    gfPerGame: num,
+    xgfPercent: num,
+    gaPerGame: num,
+    xgaPer60: num,
+    ppPercent: num,
+    pkPercent: num,
+    pimsPerGame: num,
+    corsiPercent: num,
+    faceoffPercent: num,
+    shootingPercent: num,
+    hdcfPercent: num,
+    goalie: ref("GoalieSummary"),
+    fatigue: nullable(ref("TeamFatigue")),
+  }),
+  MatchupOdds: object({
+    source: { type: "string", description: "Provider of the primary book (ESPN, Feed, File) or Not Found" },
+    line: str,
+    total: num,
+    totalSource: { type: "string", description: "The one provider with a total, Consensus or Default" },
+  }),
+  // lib/ratings: Elo going into the game, home ice and starters included
+  SideRating: object({ team: str, rating: num, games: int, goalieAdjustment: num }),
+  MatchupRatings: object({ through: str, home: ref("SideRating"), away: ref("SideRating"), homeWinProbability: num }),
+  RatingPoint: object({
+    date: str, gameId: str, opponent: str, home: bool, goalsFor: int, goalsAgainst: int,
+    goalie: nullable(str), expected: num, before: num, after: num,
+  }),
+  TeamRating: object({ rank: int, team: str, rating: num, games: int, history: list(ref("RatingPoint")) }),
+  // lib/scenarios: model weights, fallbacks and what-if overrides
+  ModelConfig: object({
+    weights: object({ goalie: num, skater: num, homeIce: num, regression: num }),
+    fallbacks: object({ svPct: num, total: num, pimsPerGame: num }),
+  }),
+  ModelConfigInput: {
+    type: "object",
+    description: "Any subset of ModelConfig; the rest keeps its default",
+    properties: {
+      weights: { type: "object", properties: { goalie: num, skater: num, homeIce: num, regression: num } },
+      fallbacks: { type: "object", properties: { svPct: num, total: num, pimsPerGame: num } },
+    },
+  },
+  SideOverride: {
+    type: "object",
+    properties: {
+      goalie: { type: "string", description: "Name, NHL player ID or \"backup\"" },
+      xgfPer60: { ...num, description: "Added to 5on5 xGF/60" },
+      xgaPer60: { ...num, description: "Added to 5on5 xGA/60" },
+      ppPercent: num,
+      pkPercent: num,
+    },
+  },
+  Scenario: {
+    type: "object",
+    properties: { home: ref("SideOverride"), away: ref("SideOverride"), weights: ref("ModelConfigInput") },
+  },
+  AppliedConfig: { allOf: [ref("ModelConfig"), object({ name: nullable(str) })] },
+  SavedConfig: object({ name: str, description: nullable(str), config: ref("ModelConfig"), savedAt: str }),
+  ScenarioResult: object({
+    overrides: ref("Scenario"),
+    weights: { type: "object" },
+    home: ref("TeamStats"),
+    away: ref("TeamStats"),
+    prediction: ref("Prediction"),
+    simulation: ref("Simulation"),
+  }, ["simulation"]),
+  ScenarioDifference: object({
+    moneylineHome: num,
+    expectedGoals: object({ home: num, away: num, total: num }),
+  }),
+  // Output of predictMatchup / simulateMatchup (lib/model, lib/simulator)
+  Prediction: { type: "object", additionalProperties: true },
+  Simulation: { type: "object", additionalProperties: true },
+  MatchupResponse: object({
+    home: ref("TeamStats"),
+    away: ref("TeamStats"),
+    odds: ref("MatchupOdds"),
+    lines: ref("GameLines"),
+    ratings: nullable(ref("MatchupRatings")),
+    season: ref("SeasonInfo"),
+    config: ref("AppliedConfig"),
+    prediction: ref("Prediction"),
+    simulation: ref("Simulation"),
+    // Only with a scenario: the baseline is the rest of the body
+    scenario: ref("ScenarioResult"),
+    difference: ref("ScenarioDifference"),
+    warnings: list(ref("Warning")),
+    sources: list(ref("SourceMeta")),
+  }, ["prediction", "simulation", "scenario", "difference"]),
+
+  // Odds
+  Market: object({
+    available: bool,
+    provider: nullable(str),
+    details: nullable(str),
+    favorite: nullable({ type: "string", enum: ["home", "away"] }),
+    moneyline: object({
+      home: nullable(num), away: nullable(num),
+      impliedHome: nullable(num), impliedAway: nullable(num),
+      overround: nullable(num), fairHome: nullable(num), fairAway: nullable(num),
+    }),
+    spread: object({
+      home: object({ line: nullable(num), price: nullable(num) }),
+      away: object({ line: nullable(num), price: nullable(num) }),
+    }),
+    total: object({
+      line: nullable(num), over: nullable(num), under: nullable(num),
+      overround: nullable(num), fairOver: nullable(num), fairUnder: nullable(num),
+    }),
+    missing: list(str),
+  }),
+  OddsMarket: { allOf: [ref("Market"), object({ favoriteCode: nullable(str) })] },
+  // lib/providers: every book for a game, the best price per side and the consensus line
+  BookPrice: object({ book: str, price: num, line: nullable(num) }),
+  GameLines: object({
+    books: list({ allOf: [ref("Market"), object({ source: str })] }),
+    best: object({
+      moneyline: object({ home: nullable(ref("BookPrice")), away: nullable(ref("BookPrice")) }),
+      spread: object({ home: nullable(ref("BookPrice")), away: nullable(ref("BookPrice")) }),
+      total: object({ over: nullable(ref("BookPrice")), under: nullable(ref("BookPrice")) }),
+    }),
+    consensus: object({
+      books: int,
+      moneyline: object({ fairHome: nullable(num), fairAway: nullable(num), home: nullable(num), away: nullable(num) }),
+      spread: nullable(num),
+      total: nullable(num),
+    }),
+  }),
+  OddsTeam: object({ name: str, code: str, score: num, record: str }),
+  OddsGame: object({
+    gameId: str,
+    date: str,
+    status: str,
+    period: int,
+    clock: str,
+    homeTeam: ref("OddsTeam"),
+    awayTeam: ref("OddsTeam"),
+    market: ref("OddsMarket"),
+    lines: ref("GameLines"),
+  }),
+  OddsResponse: object({
+    date: str,
+    season: ref("SeasonInfo"),
+    count: int,
+    games: list(ref("OddsGame")),
+    warnings: list(ref("Warning")),
+    sources: list(ref("SourceMeta")),
+  }),
+  // summarizeHistory (lib/lines)
+  OddsHistoryResponse: { type: "object", additionalProperties: true },
+
+  // Goalies
+  GoalieSituation: object({ minutes: num, shots: num, goalsAgainst: num, svPercent: num, gsax: num, gsaxPer60: num }),
+  DangerBand: object({ shots: num, goals: num, xGoals: num, svPercent: nullable(num) }),
+  GoalieForm: object({
+    games: int,
+    gaa: num,
+    svPercent: num,
+    gsax: num,
+    gsaxPer60: num,
+    log: list(object({ date: str, opponent: str, shots: num, goalsAgainst: num, gsax: num })),
+  }),
+  GoalieStarterInfo: object({ isStarter: bool, status: str, lastSeen: nullable(str), backToBack: nullable(bool) }),
+  GoalieStats: object({
+    playerId: nullable(str),
+    name: str,
+    team: str,
+    gamesPlayed: num,
+    stats: object({
+      gaa: num,
+      svPercent: num,
+      gsaxPer60: num,
+      totalGSAx: num,
+      svPercentShrunk: num,
+      gsaxPer60Shrunk: num,
+      sample: object({ games: num, minutes: num, shots: num }),
+    }),
+    situations: map(ref("GoalieSituation")),
+    danger: map(ref("DangerBand")),
+    form: nullable(ref("GoalieForm")),
+    starter: ref("GoalieStarterInfo"),
+  }),
+  PlayerMatch: nullable(object({ query: str, status: { type: "string", enum: ["matched", "ambiguous", "not-found"] }, candidates: list({ type: "object" }) })),
+  GoalieStatsResponse: object({
+    date: str,
+    season: ref("SeasonInfo"),
+    match: ref("PlayerMatch"),
+    form: nullable(object({ games: int, goalies: int, limit: int })),
+    count: int,
+    goalies: list(ref("GoalieStats")),
+    warnings: list(ref("Warning")),
+    sources: list(ref("SourceMeta")),
+  }),
+  // skater-stats: season rates per situation and tonight's prop projections
+  SkaterRates: object({
+    gamesPlayed: num,
+    toiPerGame: num,
+    goalsPer60: num,
+    xGoalsPer60: num,
+    shotsPer60: num,
+    pointsPer60: num,
+    totals: object({ goals: num, xGoals: num, shots: num, points: num }),
+  }),
+  SkaterTonight: object({
+    opponent: str,
+    gameId: nullable(str),
+    opponentXgaPer60: num,
+    opponentGoalie: nullable(object({ name: str, playerId: nullable(str), status: str, gsaxPer60: num })),
+    projectedToi: num,
+    adjustments: object({ defense: num, goalie: num }),
+    shotsOnGoal: object({ projection: num, over: { ...map(num), description: "P(shots > line) per line: 1.5, 2.5, 3.5, 4.5" } }),
+    points: object({ projection: num, over: { ...map(num), description: "P(points > line) per line: 0.5, 1.5" } }),
+    goals: object({ projection: num, anytime: num }),
+  }),
+  Skater: object({
+    playerId: nullable(str),
+    name: str,
+    team: str,
+    position: nullable(str),
+    gamesPlayed: num,
+    situations: { ...map(ref("SkaterRates")), description: "all, 5on5 and 5on4 (when MoneyPuck has the row)" },
+    tonight: nullable(ref("SkaterTonight")),
+  }),
+  SkaterStatsResponse: object({
+    date: str,
+    season: ref("SeasonInfo"),
+    match: ref("PlayerMatch"),
+    count: int,
+    skaters: list(ref("Skater")),
+    warnings: list(ref("Warning")),
+    sources: list(ref("SourceMeta")),
+  }),
+};
+
+// Every successful body that touches an upstream
+const REPORT = { warnings: list(ref("Warning")), sources: list(ref("SourceMeta")) };
+
+// savant-api answers with a different shape per action
+const SAVANT_RESPONSES: Record<string, any> = {
+  schedule: object({ games: list(ref("Game")), count: int, dateUsed: str, ...REPORT }),
+  slate: object({
+    date: str, season: ref("SeasonInfo"), config: ref("AppliedConfig"), count: int, ...REPORT,
+    games: list({ allOf: [ref("Game"), object({ home: nullable(ref("TeamStats")), away: nullable(ref("TeamStats")), odds: ref("Market"), lines: ref("GameLines"), ratings: nullable(ref("MatchupRatings")), prediction: nullable(ref("Prediction")) })] }),
+  }),
+  edges: object({ date: str, season: ref("SeasonInfo"), config: ref("AppliedConfig"), kellyCap: num, count: int, sides: list({ type: "object" }), skipped: list({ type: "object" }), ...REPORT }),
+  backtest: object({ from: str, to: str, season: ref("SeasonInfo"), config: ref("AppliedConfig"), metrics: { type: "object" }, games: list({ type: "object" }), skipped: list({ type: "object" }), ...REPORT }),
+  live: object({ date: str, season: ref("SeasonInfo"), config: ref("AppliedConfig"), count: int, games: list({ type: "object" }), ...REPORT }),
+  teams: object({ count: int, teams: list({ type: "object" }) }),
+  ratings: object({ date: str, season: int, through: str, count: int, ratings: list(ref("TeamRating")), ...REPORT }),
+  configs: object({ defaults: ref("ModelConfig"), count: int, configs: list(ref("SavedConfig")) }),
+};
+Object.entries(SAVANT_RESPONSES).forEach(([action, schema]) => {
+  schemas[`${action[0].toUpperCase()}${action.slice(1)}Response`] = schema;
+});
+
+const ERRORS = {
+  "400": json({ oneOf: [ref("Error"), ref("UnknownTeam")] }, "Invalid parameters"),
+  "500": json(ref("Error"), "Engine failure"),
+  "502": json(ref("Error"), "An upstream failed and nothing was cached (UPSTREAM_ERROR)"),
+  "504": json(ref("Error"), "An upstream timed out on every attempt (UPSTREAM_TIMEOUT)"),
+};
+
+// --- DOCUMENT ---
+export const openApiDocument = () => ({
+  openapi: "3.1.0",
+  info: {
+    title: "Savant Math Engine",
+    version: "2.0.0",
+    description: "NHL matchup model, goalie stats and betting lines. Every response that touches an upstream carries a `sources` block (age, staleness, data warnings) and `warnings` for inputs it had to do without. Errors share one envelope with a stable `code`.",
+  },
+  servers: [{ url: "/.netlify/functions" }],
+  paths: {
+    "/savant-api": {
+      get: {
+        operationId: "savantApi",
+        summary: "Matchups, predictions, simulations, slates, edges, backtests, live win probability and power ratings",
+        parameters: [
+          query("action", "Mode. Without one, home + away return the full matchup stats", {
+            type: "string", enum: ["schedule", "edges", "teams", "slate", "backtest", "live", "ratings", "configs", "predict", "simulate"],
+          }),
+          TEAM_PARAM("home", "Home team"),
+          TEAM_PARAM("away", "Away team"),
+          query("homeGoalie", "Home goalie name or NHL player ID (overrides the starter)"),
+          query("awayGoalie", "Away goalie name or NHL player ID (overrides the starter)"),
+          query("sims", "Simulation count (action=simulate)", { ...int, minimum: 1, maximum: 100000 }),
+          query("seed", "Random seed, a whole number; the same seed replays the same run (action=simulate)", { ...int, minimum: 0 }),
+          query("total", "Total to price instead of the market's (action=simulate)", { ...num, minimum: 0.5, maximum: 20 }),
+          query("kellyCap", "Largest stake as a bankroll fraction, above 0 and at most 1 (action=edges, default 0.05)", { ...num, exclusiveMinimum: 0, maximum: 1 }),
+          query("from", "First day, YYYY-MM-DD (action=backtest)"),
+          query("to", "Last day, YYYY-MM-DD (action=backtest)"),
+          TEAM_PARAM("team", "One team's rating and history (action=ratings)"),
+          query("config", "Saved model config to price with (see action=configs): matchups, slate, edges, live and backtest"),
+          FORMAT_PARAM(["csv", "ics"], "Response format for action=schedule; csv and ics download as files"),
+          ...SEASON_PARAMS,
+        ],
+        responses: {
+          "200": withDownloads(json({ oneOf: [ref("MatchupResponse"), ...Object.keys(SAVANT_RESPONSES).map((a) => ref(`${a[0].toUpperCase()}${a.slice(1)}Response`))] },
+            "Shape depends on `action`"), ["csv", "ics"]),
+          "404": json(ref("Error"), "Goalie not found, no stats for a team, or no live game for the teams"),
+          "409": json(ref("Error"), "Goalie name matches more than one player"),
+          ...ERRORS,
+        },
+      },
+      post: {
+        operationId: "savantApiScenario",
+        summary: "Any mode under a model config; a matchup with a what-if scenario side by side; or save a named config (action=configs)",
+        parameters: [query("action", "Same modes as GET; a scenario is only accepted with none, predict or simulate", {
+          type: "string", enum: ["schedule", "edges", "teams", "slate", "backtest", "live", "ratings", "configs", "predict", "simulate"],
+        })],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                description: "Any query parameter as a field (body wins), plus:",
+                properties: {
+                  config: { oneOf: [{ type: "string", description: "Saved config name" }, ref("ModelConfigInput")] },
+                  scenario: { ...ref("Scenario"), description: "Single matchups only; other modes answer 400" },
+                  name: { type: "string", description: "Name to save under (action=configs)" },
+                  description: { type: "string", description: "action=configs" },
+                  overwrite: { type: "boolean", description: "action=configs: replace a config saved under the same name (409 otherwise)" },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          "200": json({ oneOf: [ref("MatchupResponse"), ...["Slate", "Edges", "Live", "Backtest"].map((name) => ref(`${name}Response`))] },
+            "Baseline under the config; `scenario` and `difference` when a scenario is given"),
+          "201": json(object({ saved: ref("SavedConfig") }), "Config saved (action=configs)"),
+          "401": json(ref("Error"), "action=configs without `Authorization: Bearer <SAVANT_ADMIN_TOKEN>`"),
+          "404": json(ref("Error"), "Goalie, saved config or team stats not found"),
+          "409": json(ref("Error"), "Goalie name matches more than one player, or a config by that name exists (CONFIG_EXISTS)"),
+          ...ERRORS,
+        },
+      },
+    },
+    "/goalie-stats": {
+      get: {
+        operationId: "goalieStats",
+        summary: "Goalie GSAx, save percentages, splits, recent form and tonight's starters",
+        parameters: [
+          TEAM_PARAM("team", "Only this team's goalies"),
+          query("name", "Goalie name or NHL player ID"),
+          query("last", "Recent form over the last N games (top goalies only)", int),
+          FORMAT_PARAM(["csv"]),
+          ...SEASON_PARAMS,
+        ],
+        responses: { "200": withDownloads(json(ref("GoalieStatsResponse"), "Goalies, starters first"), ["csv"]), ...ERRORS },
+      },
+    },
+    "/skater-stats": {
+      get: {
+        operationId: "skaterStats",
+        summary: "Skater scoring rates per situation, with shots, points and goal projections for tonight's games",
+        parameters: [
+          TEAM_PARAM("team", "Only this team's skaters"),
+          query("name", "Skater name or NHL player ID; an ambiguous name returns every match"),
+          query("position", "C, L, R or D, or F for any forward (any case)"),
+          ...SEASON_PARAMS,
+        ],
+        responses: { "200": json(ref("SkaterStatsResponse"), "Skaters in tonight's games first, by projected points"), ...ERRORS },
+      },
+    },
+    "/nhl-odds": {
+      get: {
+        operationId: "nhlOdds",
+        summary: "Moneyline, spread and total per game with implied and no-vig probabilities, or one game's line history",
+        parameters: [
+          query("action", "history: each book's opener and current line, and the biggest moves for gameId", { type: "string", enum: ["history"] }),
+          query("gameId", "ESPN game ID (action=history)"),
+          FORMAT_PARAM(["csv", "ics"], "Response format for the day's lines; csv and ics download as files"),
+          // One date's board: the season is the date's, and there are no MoneyPuck samples to blend
+          ...SEASON_PARAMS.filter((p) => p.name !== "blend" && p.name !== "season"),
+        ],
+        responses: {
+          "200": withDownloads(json({ oneOf: [ref("OddsResponse"), ref("OddsHistoryResponse")] }, "Lines for the day, or the history of one game"), ["csv", "ics"]),
+          "404": json(ref("Error"), "No odds history for game"),
+          ...ERRORS,
+        },
+      },
+    },
+  },
+  components: { schemas },
+});
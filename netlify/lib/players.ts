@@ -0,0 +1,79 @@
+// --- PLAYER IDENTITY RESOLVER ---
+// Matches a player query against MoneyPuck-style rows. MoneyPuck's playerId is
+// the NHL player ID, so an ID from either source is an exact match. Names are
+// compared folded (accents, case, punctuation and Jr./Sr./III suffixes removed).
+// Ambiguous queries return every candidate instead of picking one.
+
+const SUFFIXES = new Set(["jr", "sr", "ii", "iii", "iv"]);
+
+// "Aleksandar Georgiev" / "ALEKSANDAR GEORGIEV" / "Jean-François Bérubé Jr." -> comparable tokens
+export const foldName = (name: string) =>
+  name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[.'\u2019]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .split(" ")
+    .filter((token) => token && !SUFFIXES.has(token));
+
+// NHL player IDs are 7 digits (8xxxxxx)
+export const isPlayerId = (query?: string | null) => !!query && /^\d{6,8}$/.test(query.trim());
+
+export type MatchStatus = "matched" | "ambiguous" | "not-found";
+
+export interface PlayerMatch<T> {
+  status: MatchStatus;
+  query: string;
+  match: T | null;
+  candidates: T[];
+}
+
+export interface PlayerAccessors<T> {
+  id: (row: T) => string | null | undefined;
+  name: (row: T) => string;
+}
+
+const result = <T>(query: string, candidates: T[]): PlayerMatch<T> => ({
+  status: candidates.length === 1 ? "matched" : candidates.length > 1 ? "ambiguous" : "not-found",
+  query,
+  match: candidates.length === 1 ? candidates[0] : null,
+  candidates,
+});
+
+// `rows` should hold one row per player (filter MoneyPuck situations first)
+export const resolvePlayer = <T>(rows: T[], query: string, get: PlayerAccessors<T>, playerId?: string | null): PlayerMatch<T> => {
+  // 1. IDs (explicit, or the query itself is one)
+  const id = playerId || (isPlayerId(query) ? query.trim() : null);
+  if (id) {
+    const byId = rows.filter((row) => String(get.id(row) ?? "") === id);
+    if (byId.length || isPlayerId(query)) return result(query, byId);
+  }
+
+  const wanted = foldName(query);
+  if (wanted.length === 0) return result(query, []);
+  const folded = rows.map((row) => ({ row, tokens: foldName(get.name(row)) }));
+
+  // 2. Exact full name
+  const exact = folded.filter((f) => f.tokens.join(" ") === wanted.join(" "));
+  if (exact.length) return result(query, exact.map((f) => f.row));
+
+  // 3. Surname, narrowed by first name or initial when one was given.
+  // A first name that fits none of them is a different player ("Joe Smith" is not Bob Smith).
+  const surname = wanted[wanted.length - 1];
+  let bySurname = folded.filter((f) => f.tokens[f.tokens.length - 1] === surname);
+  if (wanted.length > 1) {
+    const first = wanted[0];
+    bySurname = bySurname.filter((f) => f.tokens[0]?.startsWith(first) || first.startsWith(f.tokens[0] || "-"));
+  }
+  if (bySurname.length) return result(query, bySurname.map((f) => f.row));
+
+  // 4. Partial match anywhere in the folded name ("vasi" -> Vasilevskiy)
+  const needle = wanted.join(" ");
+  return result(query, folded.filter((f) => f.tokens.join(" ").includes(needle)).map((f) => f.row));
+};
+
+// Compact candidate list for error bodies
+export const describeCandidates = <T>(candidates: T[], get: PlayerAccessors<T>, team?: (row: T) => string) =>
+  candidates.map((row) => ({ playerId: get.id(row) ?? null, name: get.name(row), ...(team ? { team: team(row) } : {}) }));
@@ -0,0 +1,217 @@
+// --- ODDS PROVIDERS ---
+// Bookmaker prices come from any number of providers, each normalised to one market per
+// book and game (buildMarket in lib/odds):
+//   - espn: every entry in the scoreboard's odds list (the board the request already loaded)
+//   - feed: a JSON or CSV feed at SAVANT_ODDS_FEED_URL, fetched and cached through lib/sources
+//   - file: the same format from a local file at SAVANT_ODDS_FILE (testing, offline development)
+// SAVANT_ODDS_PROVIDERS picks them in order (comma-separated, default "espn"); the first book
+// that prices a game is its primary market.
+//
+// Feed and file rows, one per book and game:
+//   date,home,away,book,homeMoneyline,awayMoneyline,spread,homeSpreadPrice,awaySpreadPrice,total,overPrice,underPrice
+// `date` is the Eastern game day, `spread` the home line; teams take anything lib/teams resolves.
+import { promises as fs } from "fs";
+import { SourceMeta } from "./cache";
+import { americanFromProbability, buildMarket, decimalOdds, parseAmerican, parseLine, parseEspnMarket, ParsedMarket } from "./odds";
+import { loadOddsFeed, parseOddsFeed } from "./sources";
+import { normalizeTeamCode, resolveTeam } from "./teams";
+import { easternDate, todayEastern } from "./starters";
+import { validateRows } from "./rows";
+import { ApiWarning, warning } from "./warnings";
+import { CsvRow } from "./types";
+
+export interface BookLine {
+  source: string;   // Provider name
+  date: string;     // Eastern game day, YYYYMMDD
+  home: string;
+  away: string;
+  market: ParsedMarket;  // market.provider is the bookmaker
+}
+
+export interface OddsRequest {
+  date?: string;    // YYYY-MM-DD or YYYYMMDD (default today)
+  scoreboard: any;  // ESPN scoreboard already loaded for the date
+}
+
+export interface OddsProvider {
+  name: string;
+  load(request: OddsRequest, sources: SourceMeta[]): Promise<BookLine[]>;
+}
+
+const compactDate = (date?: string) => (date || todayEastern()).replace(/-/g, "");
+
+// --- ADAPTERS ---
+export const createEspnProvider = (): OddsProvider => ({
+  name: "ESPN",
+  load: async ({ scoreboard }) => (scoreboard?.events || []).flatMap((evt: any) => {
+    const competition = evt.competitions[0];
+    const side = (homeAway: string) => normalizeTeamCode(competition.competitors.find((c: any) => c.homeAway === homeAway)?.team?.abbreviation);
+    return (competition.odds || []).map((odds: any): BookLine => ({
+      source: "ESPN",
+      date: easternDate(new Date(evt.date)).replace(/-/g, ""),
+      home: side("home"),
+      away: side("away"),
+      market: parseEspnMarket(odds),
+    }));
+  }),
+});
+
+// Rows for other days, and teams that don't resolve, are skipped
+const feedLines = (rows: CsvRow[], source: string, date: string) => rows.flatMap((row): BookLine[] => {
+  const home = resolveTeam(row.home)?.code;
+  const away = resolveTeam(row.away)?.code;
+  if (!home || !away || (row.date || "").replace(/-/g, "") !== date) return [];
+  const book = row.book || source;
+  return [{
+    source,
+    date,
+    home,
+    away,
+    market: buildMarket({
+      homeMl: parseAmerican(row.homeMoneyline),
+      awayMl: parseAmerican(row.awayMoneyline),
+      homeSpreadLine: parseLine(row.spread),
+      awaySpreadLine: null,
+      homeSpreadPrice: parseAmerican(row.homeSpreadPrice),
+      awaySpreadPrice: parseAmerican(row.awaySpreadPrice),
+      totalLine: parseLine(row.total),
+      overPrice: parseAmerican(row.overPrice),
+      underPrice: parseAmerican(row.underPrice),
+    }, { provider: book, details: null }),
+  }];
+});
+
+export const createFeedProvider = (url: string): OddsProvider => ({
+  name: "Feed",
+  load: async (request, sources) => feedLines(await loadOddsFeed(url, sources), "Feed", compactDate(request.date)),
+});
+
+// Read on every request (no cache), so edits to the file show up at once
+export const createFileProvider = (file: string): OddsProvider => ({
+  name: "File",
+  load: async (request) => {
+    const text = await fs.readFile(file, "utf8");
+    const rows = parseOddsFeed(file.endsWith(".json") ? JSON.parse(text) : text);
+    const problems = validateRows(rows, "oddsFeed");
+    if (problems.length) throw new Error(`${file}: ${problems.join("; ")}`);
+    return feedLines(rows, "File", compactDate(request.date));
+  },
+});
+
+// --- CONFIGURATION ---
+const fromEnv = (): OddsProvider[] => (process.env.SAVANT_ODDS_PROVIDERS || "espn").split(",").flatMap((name) => {
+  const key = name.trim().toLowerCase();
+  if (key === "espn") return [createEspnProvider()];
+  if (key === "feed" && process.env.SAVANT_ODDS_FEED_URL) return [createFeedProvider(process.env.SAVANT_ODDS_FEED_URL)];
+  if (key === "file" && process.env.SAVANT_ODDS_FILE) return [createFileProvider(process.env.SAVANT_ODDS_FILE)];
+  if (key) console.warn(`Odds provider "${key}" is unknown or not configured, skipping`);
+  return [];
+});
+
+let providers: OddsProvider[] = fromEnv();
+
+export const setOddsProviders = (next: OddsProvider[]) => {
+  providers = next;
+};
+
+export const getOddsProviders = () => providers;
+
+// Every provider's lines for the day. A provider that fails is left out with a warning.
+export const loadBookLines = async (request: OddsRequest, sources: SourceMeta[]) => {
+  const warnings: ApiWarning[] = [];
+  const results = await Promise.all(providers.map((provider) =>
+    provider.load(request, sources).catch((e): BookLine[] => {
+      console.error(`Odds provider ${provider.name} failed:`, e);
+      warnings.push(warning("SOURCE_UNAVAILABLE", `${provider.name} odds unavailable`, { source: `odds:${provider.name}` }));
+      return [];
+    })));
+  return { lines: results.flat(), warnings };
+};
+
+// --- LINE SHOPPING ---
+export interface BookPrice {
+  book: string;
+  price: number;
+  line: number | null;  // Spread or total the price is for (null for moneylines)
+}
+
+export type BookMarket = ParsedMarket & { source: string };
+
+export interface GameLines {
+  books: BookMarket[];  // Provider order; the first is the primary market
+  best: {
+    moneyline: { home: BookPrice | null; away: BookPrice | null };
+    spread: { home: BookPrice | null; away: BookPrice | null };
+    total: { over: BookPrice | null; under: BookPrice | null };
+  };
+  // Medians across books: no-vig moneyline (as probabilities and prices), home spread and total
+  consensus: {
+    books: number;
+    moneyline: { fairHome: number | null; fairAway: number | null; home: number | null; away: number | null };
+    spread: number | null;
+    total: number | null;
+  };
+}
+
+const round = (val: number) => parseFloat(val.toFixed(4));
+
+const median = (values: (number | null)[]) => {
+  const sorted = values.filter((v): v is number => v !== null).sort((a, b) => a - b);
+  if (!sorted.length) return null;
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Best line for the side first (`direction` 1: higher is better, -1: lower), then the best payout
+const bestOf = (offers: (BookPrice | null)[], direction: 1 | -1 | 0 = 0) =>
+  offers.reduce<BookPrice | null>((best, candidate) => {
+    if (!candidate) return best;
+    if (!best) return candidate;
+    const lineDiff = direction * ((candidate.line ?? 0) - (best.line ?? 0));
+    if (lineDiff !== 0) return lineDiff > 0 ? candidate : best;
+    return decimalOdds(candidate.price) > decimalOdds(best.price) ? candidate : best;
+  }, null);
+
+const offer = (book: string | null, price: number | null, line: number | null = null): BookPrice | null =>
+  price === null ? null : { book: book || "Unknown", price, line };
+
+// Every book pricing home vs away, combined
+export const gameLines = (lines: BookLine[], home: string, away: string): GameLines => {
+  const books = lines.filter((l) => l.home === home && l.away === away).map((l): BookMarket => ({ ...l.market, source: l.source }));
+  const fairHome = median(books.map((m) => m.moneyline.fairHome));
+  return {
+    books,
+    best: {
+      moneyline: {
+        home: bestOf(books.map((m) => offer(m.provider, m.moneyline.home))),
+        away: bestOf(books.map((m) => offer(m.provider, m.moneyline.away))),
+      },
+      spread: {
+        home: bestOf(books.map((m) => offer(m.provider, m.spread.home.price, m.spread.home.line)), 1),
+        away: bestOf(books.map((m) => offer(m.provider, m.spread.away.price, m.spread.away.line)), 1),
+      },
+      total: {
+        over: bestOf(books.map((m) => offer(m.provider, m.total.over, m.total.line)), -1),
+        under: bestOf(books.map((m) => offer(m.provider, m.total.under, m.total.line)), 1),
+      },
+    },
+    consensus: {
+      books: books.length,
+      moneyline: {
+        fairHome: fairHome === null ? null : round(fairHome),
+        fairAway: fairHome === null ? null : round(1 - fairHome),
+        home: fairHome === null ? null : americanFromProbability(fairHome),
+        away: fairHome === null ? null : americanFromProbability(1 - fairHome),
+      },
+      spread: median(books.map((m) => m.spread.home.line)),
+      total: median(books.map((m) => m.total.line)),
+    },
+  };
+};
+
+// The first book's market, or an empty one when nobody prices the game
+export const primaryMarket = (lines: GameLines): ParsedMarket => {
+  if (!lines.books.length) return buildMarket(null);
+  const { source, ...market } = lines.books[0];
+  return market;
+};
@@ -0,0 +1,277 @@
+// --- TEAM POWER RATINGS (ELO) ---
+// Season aggregates can't see a team's last month, so completed games are also replayed in
+// order through an Elo rating per team:
+//   - expected result from the rating gap, home ice and the two starting goalies
+//   - the shift grows with the margin (an empty-net 5-2 moves more than a shootout)
+//   - each season starts from last season's final ratings pulled 30% back to the mean
+// State is persisted per season in the store and advanced one completed day at a time from
+// ESPN scoreboard ranges, so a request only replays what happened since the last one. Without
+// SAVANT_STORE_DIR the store dies with the instance and each cold start replays the season
+// (one range request per month, fetched together), which is why matchups and slates only
+// include ratings on request.
+// Starters come from the starter log lib/starters records (unknown -> no goalie adjustment);
+// replayed games judge them on their game logs up to that day.
+import { SourceMeta } from "./cache";
+import { loadGoalieGameLog, loadScoreboardRange, loadTeamGameLog } from "./sources";
+import { datesBetween } from "./backtest";
+import { currentSeason, GameType, parseDateParam } from "./season";
+import { easternDate, loadStarterLog, todayEastern } from "./starters";
+import { readRecord, writeRecord } from "./store";
+import { normalizeTeamCode, TEAM_CODES } from "./teams";
+import { GOALIE_COLUMNS, goalieGsax, readFloat } from "./rows";
+import { CsvRow, EspnCompetitor, EspnEvent, MatchupRatings } from "./types";
+
+export const ELO = {
+  initial: 1500,
+  k: 6,                // Points at stake per game before the margin multiplier
+  homeIce: 50,         // Added to the home side's rating for the expected result
+  carryOver: 0.7,      // Share of last season's distance from the mean kept into the new season
+  perGoal: 150,        // Rating points per goal/60 of goaltending above the team's average
+  maxRangeDays: 31,    // Days per ESPN range request
+};
+
+export interface RatingPoint {
+  date: string;        // YYYY-MM-DD (Eastern)
+  gameId: string;
+  opponent: string;
+  home: boolean;
+  goalsFor: number;
+  goalsAgainst: number;
+  goalie: string | null;     // Starter from the starter log (NHL player ID)
+  expected: number;          // Win probability before the game
+  before: number;
+  after: number;
+}
+
+export interface TeamRating {
+  team: string;
+  rating: number;
+  games: number;
+  history: RatingPoint[];
+}
+
+interface RatingsState {
+  season: number;
+  through: string | null;    // Last fully processed day (YYYYMMDD)
+  initial: Record<string, number>;
+  teams: Record<string, TeamRating>;
+}
+
+// Goals/60 a team's starter is worth above its usual goaltending (0 when unknown)
+export type GoalieQuality = (team: string, playerId: string | null) => number;
+
+// The same for a replayed game, from what was known going into `day` (YYYY-MM-DD)
+type ReplayGoalieQuality = (team: string, playerId: string | null, day: string, type: GameType) => Promise<number>;
+
+const ratingsKey = (season: number) => `ratings:${season}`;
+const compact = (day: string) => day.replace(/-/g, "");
+const round = (val: number, digits = 1) => parseFloat(val.toFixed(digits));
+
+// --- GOALIES ---
+// Each goalie's GSAx/60 against the ice-time-weighted average of the team's goalies
+export const goalieQualityFrom = (goalieRows: CsvRow[]): GoalieQuality => {
+  const rows = goalieRows.filter((row) => !row.situation || row.situation === "all");
+  const perSixty = (row: CsvRow) => {
+    const seconds = readFloat(row, GOALIE_COLUMNS.iceTime);
+    return seconds > 0 ? (goalieGsax(row) * 3600) / seconds : 0;
+  };
+  const teamAverage: Record<string, { gsax: number; seconds: number }> = {};
+  rows.forEach((row) => {
+    const team = normalizeTeamCode(row.team);
+    const entry = teamAverage[team] || (teamAverage[team] = { gsax: 0, seconds: 0 });
+    entry.gsax += goalieGsax(row);
+    entry.seconds += readFloat(row, GOALIE_COLUMNS.iceTime);
+  });
+  return (team, playerId) => {
+    const row = playerId ? rows.find((g) => g.playerId === playerId) : null;
+    const average = teamAverage[team];
+    if (!row || !average || average.seconds <= 0) return 0;
+    return perSixty(row) - (average.gsax * 3600) / average.seconds;
+  };
+};
+
+// Replayed games can't use the season rows: a November game would be judged on the starter's
+// March numbers. Instead the starter's game log up to the day, against the team's goaltending
+// (xGA - GA) over its games up to the day. Logs load once per replay; one that fails counts as 0.
+const perSixty = (rows: CsvRow[], value: (row: CsvRow) => number, iceTime: string[]) => {
+  const seconds = rows.reduce((sum, row) => sum + readFloat(row, iceTime), 0);
+  return seconds > 0 ? (rows.reduce((sum, row) => sum + value(row), 0) * 3600) / seconds : null;
+};
+
+const replayGoalieQuality = (season: number, sources?: SourceMeta[]): ReplayGoalieQuality => {
+  const logs = new Map<string, Promise<CsvRow[]>>();
+  const log = (key: string, load: () => Promise<CsvRow[]>) => {
+    if (!logs.has(key)) logs.set(key, load().catch(() => []));
+    return logs.get(key)!;
+  };
+  return async (team, playerId, day, type) => {
+    if (!playerId) return 0;
+    const [goalieLog, teamLog] = await Promise.all([
+      log(`goalie:${type}:${playerId}`, () => loadGoalieGameLog(type, playerId, sources)),
+      log(`team:${type}:${team}`, () => loadTeamGameLog(type, team, sources)),
+    ]);
+    const before = (rows: CsvRow[]) => rows.filter((row) =>
+      parseInt(row.season) === season && row.situation === "all" && String(row.gameDate) < compact(day));
+    const goalie = perSixty(before(goalieLog), goalieGsax, GOALIE_COLUMNS.iceTime);
+    const average = perSixty(before(teamLog), (row) => readFloat(row, ["xGoalsAgainst"]) - readFloat(row, ["goalsAgainst"]), GOALIE_COLUMNS.iceTime);
+    return goalie === null || average === null ? 0 : goalie - average;
+  };
+};
+
+// --- ELO MATH ---
+export const expectedScore = (rating: number, opponent: number) => 1 / (1 + Math.pow(10, (opponent - rating) / 400));
+
+// Scales the update with the log of the goal margin: 0.80x for a 1-goal game (shootouts
+// included), 1.27x for 2 goals, 1.54x for 3 and about 1.88x for 5
+const marginMultiplier = (margin: number) => 0.6686 * Math.log(Math.max(1, margin)) + 0.8048;
+
+// Home-side win probability for a game, goalies included
+export const homeWinProbability = (home: number, away: number, goalieEdge = 0) =>
+  expectedScore(home + ELO.homeIce + goalieEdge * ELO.perGoal, away);
+
+// --- STATE ---
+const freshState = async (season: number): Promise<RatingsState> => {
+  const prior = await readRecord<RatingsState>(ratingsKey(season - 1));
+  const initial = Object.fromEntries(TEAM_CODES.map((team) => {
+    const last = prior?.teams[team]?.rating;
+    return [team, last === undefined ? ELO.initial : round(ELO.initial + (last - ELO.initial) * ELO.carryOver)];
+  }));
+  const teams = Object.fromEntries(Object.entries(initial).map(([team, rating]) => [team, { team, rating, games: 0, history: [] }]));
+  return { season, through: null, initial, teams };
+};
+
+const teamEntry = (state: RatingsState, team: string) =>
+  state.teams[team] || (state.teams[team] = { team, rating: state.initial[team] ?? ELO.initial, games: 0, history: [] });
+
+const starterId = async (day: string, team: string) => {
+  const log = await loadStarterLog(day, team);
+  return log[log.length - 1]?.playerId ?? null;
+};
+
+const applyGame = async (state: RatingsState, evt: EspnEvent, day: string, goalies: ReplayGoalieQuality) => {
+  const competitors = evt.competitions?.[0]?.competitors || [];
+  const side = (homeAway: EspnCompetitor["homeAway"]) => competitors.find((c) => c.homeAway === homeAway);
+  const homeCode = normalizeTeamCode(side("home")?.team?.abbreviation);
+  const awayCode = normalizeTeamCode(side("away")?.team?.abbreviation);
+  const homeGoals = parseInt(side("home")?.score ?? "");
+  const awayGoals = parseInt(side("away")?.score ?? "");
+  if (isNaN(homeGoals) || isNaN(awayGoals) || homeGoals === awayGoals) return;
+
+  const home = teamEntry(state, homeCode);
+  const away = teamEntry(state, awayCode);
+  const [homeGoalie, awayGoalie] = await Promise.all([starterId(day, homeCode), starterId(day, awayCode)]);
+  const type: GameType = evt.season?.type === 3 ? "playoffs" : "regular";
+  const [homeQuality, awayQuality] = await Promise.all([goalies(homeCode, homeGoalie, day, type), goalies(awayCode, awayGoalie, day, type)]);
+  const goalieEdge = homeQuality - awayQuality;
+
+  const expected = homeWinProbability(home.rating, away.rating, goalieEdge);
+  const result = homeGoals > awayGoals ? 1 : 0;
+  const shift = ELO.k * marginMultiplier(Math.abs(homeGoals - awayGoals)) * (result - expected);
+
+  const point = (team: TeamRating, isHome: boolean, delta: number): RatingPoint => ({
+    date: day,
+    gameId: String(evt.id),
+    opponent: isHome ? awayCode : homeCode,
+    home: isHome,
+    goalsFor: isHome ? homeGoals : awayGoals,
+    goalsAgainst: isHome ? awayGoals : homeGoals,
+    goalie: isHome ? homeGoalie : awayGoalie,
+    expected: round(isHome ? expected : 1 - expected, 4),
+    before: team.rating,
+    after: round(team.rating + delta),
+  });
+  ([[home, true, shift], [away, false, -shift]] as [TeamRating, boolean, number][]).forEach(([team, isHome, delta]) => {
+    const entry = point(team, isHome, delta);
+    team.history.push(entry);
+    team.rating = entry.after;
+    team.games += 1;
+  });
+};
+
+// Replays every day after `through` up to `lastDay`, stopping at the first day with a game
+// that isn't final yet. Regular season and playoffs only (ESPN season type 2 and 3).
+const advance = async (state: RatingsState, lastDay: string, sources?: SourceMeta[]) => {
+  const first = state.through
+    ? parseDateParam(state.through)!
+    : parseDateParam(`${state.season}1001`)!;
+  if (state.through) first.setUTCDate(first.getUTCDate() + 1);
+  const days = datesBetween(first, parseDateParam(lastDay)!);
+  if (!days.length) return;
+
+  const chunks: string[][] = [];
+  for (let i = 0; i < days.length; i += ELO.maxRangeDays) chunks.push(days.slice(i, i + ELO.maxRangeDays));
+  const boards = await Promise.all(chunks.map((chunk) => loadScoreboardRange(chunk[0], chunk[chunk.length - 1], sources)));
+  const events = new Map<string, EspnEvent>();
+  boards.forEach((board) => (board.events || []).forEach((evt: EspnEvent) => events.set(String(evt.id), evt)));
+  const byDay = new Map<string, EspnEvent[]>();
+  events.forEach((evt) => {
+    if (evt.season?.type !== 2 && evt.season?.type !== 3) return;
+    const day = easternDate(new Date(evt.date));
+    byDay.set(day, [...(byDay.get(day) || []), evt]);
+  });
+
+  const goalies = replayGoalieQuality(state.season, sources);
+  for (const day of days) {
+    const iso = `${day.slice(0, 4)}-${day.slice(4, 6)}-${day.slice(6)}`;
+    const games = (byDay.get(iso) || []).sort((a, b) => String(a.date).localeCompare(String(b.date)));
+    if (games.some((evt) => evt.status?.type?.state !== "post")) break;
+    for (const evt of games) {
+      if (evt.status?.type?.completed) await applyGame(state, evt, iso, goalies);
+    }
+    state.through = day;
+  }
+};
+
+// --- MAIN ---
+// Ratings going into `date` (YYYY-MM-DD or YYYYMMDD, default today): every completed game
+// before that day. Earlier dates are read back from the history.
+export const loadRatings = async (date: string | undefined, sources?: SourceMeta[]) => {
+  const day = date && parseDateParam(date) ? easternDate(parseDateParam(date)!) : todayEastern();
+  const season = currentSeason(parseDateParam(day)!);
+  const dayBefore = parseDateParam(day)!;
+  dayBefore.setUTCDate(dayBefore.getUTCDate() - 1);
+  const lastDay = compact(dayBefore.toISOString().split("T")[0]);
+
+  const state = (await readRecord<RatingsState>(ratingsKey(season))) || (await freshState(season));
+  if (!state.through || state.through < lastDay) {
+    const before = state.through;
+    await advance(state, lastDay, sources);
+    if (state.through !== before) await writeRecord(ratingsKey(season), state);
+  }
+
+  const asOf = (team: TeamRating): TeamRating => {
+    const history = team.history.filter((point) => point.date < day);
+    const rating = history.length ? history[history.length - 1].after : state.initial[team.team] ?? ELO.initial;
+    return { team: team.team, rating, games: history.length, history };
+  };
+  return {
+    season,
+    date: day,
+    through: state.through && state.through < lastDay ? state.through : lastDay,
+    teams: Object.fromEntries(Object.values(state.teams).map((team) => [team.team, asOf(team)])) as Record<string, TeamRating>,
+  };
+};
+
+export type RatingsTable = Awaited<ReturnType<typeof loadRatings>>;
+
+// --- MATCHUPS ---
+// Both ratings going into the game, each starter's adjustment in rating points and the
+// Elo win probability (home ice and goalies included)
+export const matchupRatings = (table: RatingsTable, home: string, away: string, goalies: GoalieQuality,
+  homeGoalie: string | null = null, awayGoalie: string | null = null): MatchupRatings => {
+  const side = (team: string, goalie: string | null) => ({
+    team,
+    rating: table.teams[team]?.rating ?? ELO.initial,
+    games: table.teams[team]?.games ?? 0,
+    goalieAdjustment: round(goalies(team, goalie) * ELO.perGoal),
+  });
+  const homeSide = side(home, homeGoalie);
+  const awaySide = side(away, awayGoalie);
+  const goalieEdge = goalies(home, homeGoalie) - goalies(away, awayGoalie);
+  return {
+    through: table.through,
+    home: homeSide,
+    away: awaySide,
+    homeWinProbability: round(homeWinProbability(homeSide.rating, awaySide.rating, goalieEdge), 4),
+  };
+};
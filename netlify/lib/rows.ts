@@ -0,0 +1,115 @@
+// --- UPSTREAM ROW CONTRACTS ---
+// The columns each MoneyPuck file (and odds feed) must carry for the engine to work. Every entry is one
+// expected column; alternatives cover older spellings. Rows are checked on every load, and
+// anything missing or non-numeric becomes a warning on the response's `sources` entry
+// instead of a silent 0 from the column hunters.
+import { PlayerAccessors } from "./players";
+import { CsvRow, EspnEvent } from "./types";
+
+export type RowContract = "teams" | "goalies" | "skaters" | "teamGameLog" | "goalieGameLog" | "oddsFeed";
+
+interface Contract {
+  columns: string[][];   // Must exist (any one of the alternatives)
+  numeric: string[][];   // Must parse as numbers on every row
+}
+
+const TEAM_NUMERIC = [["iceTime", "icetime"], ["xGoalsFor"], ["xGoalsAgainst"], ["goalsFor"], ["goalsAgainst"]];
+const GOALIE_NUMERIC = [["icetime", "iceTime"], ["xGoals"], ["goals"], ["ongoal", "shotsOnGoalAgainst"]];
+
+export const ROW_CONTRACTS: Record<RowContract, Contract> = {
+  teams: {
+    columns: [["team"], ["situation"], ["xGoalsPercentage"], ["games_played", "gamesPlayed"], ["penaltiesFor"], ["penaltiesAgainst"]],
+    numeric: TEAM_NUMERIC,
+  },
+  goalies: {
+    columns: [["playerId"], ["name"], ["team"], ["situation"]],
+    numeric: [...GOALIE_NUMERIC, ["games_played", "gamesPlayed"]],
+  },
+  skaters: {
+    columns: [["playerId"], ["name"], ["team"], ["position"], ["situation"]],
+    numeric: [["icetime", "iceTime"], ["games_played", "gamesPlayed"], ["I_F_goals"], ["I_F_xGoals"], ["I_F_shotsOnGoal"], ["I_F_points"]],
+  },
+  teamGameLog: {
+    columns: [["season"], ["situation"], ["gameDate"]],
+    numeric: TEAM_NUMERIC,
+  },
+  goalieGameLog: {
+    columns: [["season"], ["situation"], ["gameDate"]],
+    numeric: GOALIE_NUMERIC,
+  },
+  // Odds feeds (lib/providers): prices may be blank for markets a book doesn't offer
+  oddsFeed: {
+    columns: [["date"], ["home"], ["away"], ["book"]],
+    numeric: [],
+  },
+};
+
+const label = (alternatives: string[]) => alternatives.join(" | ");
+
+// Missing columns, and columns whose values don't parse on some rows
+export const validateRows = (rows: CsvRow[], contract: RowContract) => {
+  const { columns, numeric } = ROW_CONTRACTS[contract];
+  if (rows.length === 0) return [`${contract}: no rows`];
+
+  const header = new Set(Object.keys(rows[0]));
+  const present = (alternatives: string[]) => alternatives.find((col) => header.has(col));
+  const warnings: string[] = [];
+
+  [...columns, ...numeric].forEach((alternatives) => {
+    if (!present(alternatives)) warnings.push(`${contract}: missing column ${label(alternatives)}`);
+  });
+  numeric.forEach((alternatives) => {
+    const col = present(alternatives);
+    if (!col) return;
+    const bad = rows.filter((row) => row[col] === "" || row[col] === undefined || isNaN(parseFloat(row[col]))).length;
+    if (bad > 0) warnings.push(`${contract}: ${bad} of ${rows.length} rows have a non-numeric ${col}`);
+  });
+  return warnings;
+};
+
+// ESPN events the handlers can't read (no competition or no home/away competitors)
+export const validateScoreboard = (data: { events?: EspnEvent[] }) => {
+  if (!Array.isArray(data?.events)) return ["scoreboard: no events array"];
+  const broken = data.events.filter((evt) => {
+    const competitors = evt?.competitions?.[0]?.competitors || [];
+    return !competitors.some((c) => c.homeAway === "home") || !competitors.some((c) => c.homeAway === "away");
+  });
+  return broken.length ? [`scoreboard: ${broken.length} events without home/away competitors (${broken.map((e) => e?.id).join(", ")})`] : [];
+};
+
+// --- GOALIE COLUMNS ---
+// Shared by every handler that reads goalie rows
+export const readFloat = (row: CsvRow | null | undefined, keys: string[]) => {
+  for (const key of keys) {
+    if (row?.[key] !== undefined && row?.[key] !== null && row?.[key] !== "") {
+      const val = parseFloat(row[key]);
+      if (!isNaN(val)) return val;
+    }
+  }
+  return 0;
+};
+
+export const GOALIE_COLUMNS = {
+  iceTime: ["iceTime", "Icetime", "timeOnIce", "icetime"],
+  goalsAgainst: ["goalsAgainst", "GoalsAgainst", "goals"],
+  shots: ["shotsOnGoalAgainst", "ongoal"],
+  gamesPlayed: ["gamesPlayed", "GamesPlayed", "games_played"],
+};
+
+// GSAx: the published column when there is one, otherwise expected minus actual goals.
+// Without xGoals the goalie counts as average (0), not as -goals.
+export const goalieGsax = (row: CsvRow) => {
+  const published = readFloat(row, ["goalsSavedAboveExpected", "GoalsSavedAboveExpected", "xGoalsSaved"]);
+  if (published) return published;
+  return row.xGoals !== undefined && row.xGoals !== "" ? readFloat(row, ["xGoals"]) - readFloat(row, ["goals"]) : 0;
+};
+
+export const goalieSvPct = (row: CsvRow) => {
+  const published = readFloat(row, ["savePercentage", "SavePercentage"]);
+  if (published) return published;
+  const shots = readFloat(row, GOALIE_COLUMNS.shots);
+  return shots > 0 ? 1 - readFloat(row, GOALIE_COLUMNS.goalsAgainst) / shots : 0;
+};
+
+// Identity of a MoneyPuck player row for lib/players (older files spell it "Name")
+export const ROW_FIELDS: PlayerAccessors<CsvRow> = { id: (row) => row.playerId, name: (row) => row.name || row.Name || "" };
@@ -0,0 +1,182 @@
+// --- MODEL CONFIG & SCENARIOS ---
+// savant-api matchups take a model config and "what if" overrides in a POST body:
+//   {
+//     "home": "TOR", "away": "BOS", "action": "predict",
+//     "config": { "weights": { "goalie": 0.8, "homeIce": 0.03 }, "fallbacks": { "total": 6 } },
+//     "scenario": { "home": { "goalie": "backup" }, "away": { "xgfPer60": -0.3 } }
+//   }
+// The baseline is the matchup under the config; the scenario is the same matchup with the
+// overrides on top, returned side by side. Anything left out keeps its default.
+// Configs saved by name (POST ?action=configs) are shared: "config": "<name>" or ?config=<name>.
+import { DEFAULT_WEIGHTS, LEAGUE, ModelWeights } from "./model";
+import { readRecord, updateRecord } from "./store";
+import { TeamStats } from "./types";
+
+// Stand-ins for data the upstreams don't have
+export interface ModelFallbacks {
+  svPct: number;        // The "Average Goalie" used when a team has no goalie rows
+  total: number;        // Over/under when no book posts one
+  pimsPerGame: number;  // When MoneyPuck has no penalty minutes
+}
+
+export interface ModelConfig {
+  weights: ModelWeights;
+  fallbacks: ModelFallbacks;
+}
+
+export const DEFAULT_CONFIG: ModelConfig = {
+  weights: DEFAULT_WEIGHTS,
+  fallbacks: { svPct: 0.900, total: 6.5, pimsPerGame: 8.0 },
+};
+
+// Accepted range per setting
+const LIMITS: { [Group in keyof ModelConfig]: Record<keyof ModelConfig[Group], [number, number]> } = {
+  weights: { goalie: [0, 3], skater: [0, 3], homeIce: [-0.2, 0.2], regression: [0, 1] },
+  fallbacks: { svPct: [0.85, 0.95], total: [3, 12], pimsPerGame: [0, 30] },
+};
+
+// One side's overrides. Stat changes are added to the team's numbers.
+export interface SideOverride {
+  goalie?: string;      // Name, NHL player ID, or "backup" (the team's other goalie with the most games)
+  xgfPer60?: number;    // 5on5 expected goals for per 60, e.g. -0.3 with a star out
+  xgaPer60?: number;    // 5on5 expected goals against per 60
+  ppPercent?: number;
+  pkPercent?: number;
+}
+
+export interface Scenario {
+  home?: SideOverride;
+  away?: SideOverride;
+  weights?: Partial<ModelWeights>;  // On top of the config's
+}
+
+const STAT_LIMITS: Record<Exclude<keyof SideOverride, "goalie">, [number, number]> = {
+  xgfPer60: [-2, 2],
+  xgaPer60: [-2, 2],
+  ppPercent: [-25, 25],
+  pkPercent: [-25, 25],
+};
+
+// --- PARSING ---
+// Known numeric keys within their limits; everything else is reported
+const readNumbers = <T extends string>(input: any, limits: Record<T, [number, number]>, path: string, problems: string[]) => {
+  const values: Partial<Record<T, number>> = {};
+  if (input === undefined) return values;
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    problems.push(`${path} must be an object`);
+    return values;
+  }
+  Object.entries(input).forEach(([key, value]) => {
+    const range = (limits as Record<string, [number, number]>)[key];
+    if (!range) {
+      problems.push(`Unknown setting ${path}.${key} (use ${Object.keys(limits).join(", ")})`);
+    } else if (typeof value !== "number" || !Number.isFinite(value) || value < range[0] || value > range[1]) {
+      problems.push(`${path}.${key} must be a number from ${range[0]} to ${range[1]}`);
+    } else {
+      values[key as T] = value;
+    }
+  });
+  return values;
+};
+
+// A config object over `base` (the defaults unless extending a saved one)
+export const parseConfig = (input: any, base = DEFAULT_CONFIG) => {
+  const problems: string[] = [];
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return { config: base, problems: ["config must be an object or the name of a saved config"] };
+  }
+  Object.keys(input).filter((key) => !(key in LIMITS)).forEach((key) => problems.push(`Unknown setting config.${key} (use weights, fallbacks)`));
+  const config: ModelConfig = {
+    weights: { ...base.weights, ...readNumbers(input.weights, LIMITS.weights, "config.weights", problems) },
+    fallbacks: { ...base.fallbacks, ...readNumbers(input.fallbacks, LIMITS.fallbacks, "config.fallbacks", problems) },
+  };
+  return { config, problems };
+};
+
+export const parseScenario = (input: any) => {
+  const problems: string[] = [];
+  if (input === undefined || input === null) return { scenario: null, problems };
+  if (typeof input !== "object" || Array.isArray(input)) return { scenario: null, problems: ["scenario must be an object"] };
+
+  const side = (key: "home" | "away"): SideOverride | undefined => {
+    const raw = input[key];
+    if (raw === undefined) return undefined;
+    if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+      problems.push(`scenario.${key} must be an object`);
+      return undefined;
+    }
+    const { goalie, ...stats } = raw;
+    if (goalie !== undefined && (typeof goalie !== "string" || !goalie.trim())) problems.push(`scenario.${key}.goalie must be a name, player ID or "backup"`);
+    return { ...(typeof goalie === "string" && goalie.trim() ? { goalie: goalie.trim() } : {}), ...readNumbers(stats, STAT_LIMITS, `scenario.${key}`, problems) };
+  };
+
+  Object.keys(input).filter((key) => !["home", "away", "weights"].includes(key))
+    .forEach((key) => problems.push(`Unknown setting scenario.${key} (use home, away, weights)`));
+  const scenario: Scenario = {
+    home: side("home"),
+    away: side("away"),
+    weights: readNumbers(input.weights, LIMITS.weights, "scenario.weights", problems),
+  };
+  return { scenario, problems };
+};
+
+// --- APPLYING ---
+const clamp = (val: number, min: number, max: number) => Math.min(max, Math.max(min, val));
+
+// An xGF/60 change moves xGF% through xGF/60 (derived from xGF% and the team's own xGA/60).
+// An xGA/60 change stays in xGA/60: the model already counts it there, and xGF% would count it twice.
+// An unknown xGF% (0) counts as even.
+export const applyOverride = (stats: TeamStats, override?: SideOverride): TeamStats => {
+  if (!override) return stats;
+  const share = stats.xgfPercent > 0 && stats.xgfPercent < 100 ? stats.xgfPercent : 50;
+  const xgf = Math.max(0.1, (share / (100 - share)) * stats.xgaPer60 + (override.xgfPer60 || 0));
+  return {
+    ...stats,
+    xgfPercent: override.xgfPer60 ? (xgf / (xgf + stats.xgaPer60)) * 100 : stats.xgfPercent,
+    xgaPer60: override.xgaPer60 ? Math.max(0.1, stats.xgaPer60 + override.xgaPer60) : stats.xgaPer60,
+    // 0 means unknown to the model, so an override never lands on it
+    ppPercent: override.ppPercent ? clamp((stats.ppPercent || LEAGUE.ppPercent) + override.ppPercent, 1, 99) : stats.ppPercent,
+    pkPercent: override.pkPercent ? clamp((stats.pkPercent || LEAGUE.pkPercent) + override.pkPercent, 1, 99) : stats.pkPercent,
+  };
+};
+
+// --- SAVED CONFIGS ---
+// All in one store record, keyed by name
+export interface SavedConfig {
+  name: string;
+  description: string | null;
+  config: ModelConfig;
+  savedAt: string;
+}
+
+const CONFIGS_KEY = "model-configs";
+const NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,39}$/i;
+
+export const validConfigName = (name: unknown): name is string => typeof name === "string" && NAME_PATTERN.test(name);
+
+export const loadSavedConfigs = async () => (await readRecord<Record<string, SavedConfig>>(CONFIGS_KEY)) || {};
+
+export const loadSavedConfig = async (name: string) => (await loadSavedConfigs())[name.toLowerCase()] || null;
+
+// An existing name is only replaced with `overwrite`; the check runs under the store lock
+export const saveConfig = async (name: string, config: ModelConfig, description: string | null = null, overwrite = false):
+  Promise<{ saved: SavedConfig } | { error: string; existing: SavedConfig }> => {
+  const saved: SavedConfig = { name: name.toLowerCase(), description, config, savedAt: new Date().toISOString() };
+  let existing = null as SavedConfig | null;
+  await updateRecord<Record<string, SavedConfig>>(CONFIGS_KEY, (current) => {
+    existing = current?.[saved.name] || null;
+    return existing && !overwrite ? undefined : { ...current, [saved.name]: saved };
+  });
+  return existing && !overwrite ? { error: `A config named ${saved.name} already exists`, existing } : { saved };
+};
+
+// A request's config: a saved name, an inline object (over the defaults) or nothing.
+// `missing` is set when the name isn't saved.
+export const resolveConfig = async (input: unknown) => {
+  if (input === undefined || input === null || input === "") return { name: null, config: DEFAULT_CONFIG, problems: [] as string[], missing: null };
+  if (typeof input === "string") {
+    const saved = await loadSavedConfig(input);
+    return { name: saved?.name ?? null, config: saved?.config ?? DEFAULT_CONFIG, problems: [] as string[], missing: saved ? null : input };
+  }
+  return { name: null, ...parseConfig(input), missing: null };
+};
@@ -0,0 +1,108 @@
+// --- SEASON & GAME TYPE ---
+// MoneyPuck publishes one summary per season ("2024" = 2024-25) and game type.
+// These helpers pick the right files and optionally blend in last season early in the year.
+
+export type GameType = "regular" | "playoffs";
+
+const MONEYPUCK_BASE = "https://moneypuck.com/moneypuck/playerData/seasonSummary";
+const MONEYPUCK_GAME_LOGS = "https://moneypuck.com/moneypuck/playerData/careers/gameByGame";
+
+// Until a team has this many games, prior-season data makes up the difference
+export const BLEND_FULL_WEIGHT_GAMES = 20;
+
+// The NHL season rolls over in October: Oct 2025 -> 2025, Feb 2026 -> 2025
+export const currentSeason = (now = new Date()) =>
+  now.getUTCMonth() >= 9 ? now.getUTCFullYear() : now.getUTCFullYear() - 1;
+
+// Accepts "2024", "2024-25" and "20242025". Anything else -> null.
+export const parseSeason = (input?: string): number | null => {
+  if (!input) return null;
+  const match = input.trim().match(/^(\d{4})(?:-?(\d{2}|\d{4}))?$/);
+  if (!match) return null;
+  const season = parseInt(match[1]);
+  return season >= 2008 && season <= currentSeason() + 1 ? season : null;
+};
+
+export const parseGameType = (input?: string): GameType | null => {
+  if (!input) return null;
+  const value = input.toLowerCase();
+  if (value === "regular" || value === "2") return "regular";
+  if (value === "playoffs" || value === "postseason" || value === "3") return "playoffs";
+  return null;
+};
+
+// "2024-11-14" or "20241114" -> Date (UTC noon, so the day never shifts).
+// Invalid, including days that don't exist ("2024-02-30") -> null.
+export const parseDateParam = (input?: string) => {
+  const match = input?.match(/^(\d{4})-?(\d{2})-?(\d{2})$/);
+  if (!match) return null;
+  const [year, month, day] = match.slice(1).map((part) => parseInt(part));
+  const parsed = new Date(Date.UTC(year, month - 1, day, 12));
+  return parsed.getUTCMonth() === month - 1 && parsed.getUTCDate() === day ? parsed : null;
+};
+
+// Validates ?date=, ?season= and ?type=. Without a season, follows the requested date (or today).
+// A date that doesn't parse is an error rather than today: it would pick the wrong season files.
+export const resolveSeasonParams = (season?: string, type?: string, date?: string) => {
+  const parsedDate = date ? parseDateParam(date) : null;
+  const parsedSeason = season ? parseSeason(season) : currentSeason(parsedDate || new Date());
+  const parsedType = type ? parseGameType(type) : "regular";
+  const errors: string[] = [];
+  if (date && !parsedDate) errors.push(`Invalid date "${date}" (use YYYY-MM-DD or YYYYMMDD)`);
+  if (parsedSeason === null) errors.push(`Invalid season "${season}" (use e.g. 2024 or 2024-25)`);
+  if (parsedType === null) errors.push(`Invalid type "${type}" (use regular or playoffs)`);
+  return { season: parsedSeason as number, type: parsedType as GameType, errors };
+};
+
+export const moneyPuckUrl = (season: number, type: GameType, file: "teams" | "goalies" | "skaters") =>
+  `${MONEYPUCK_BASE}/${season}/${type}/${file}.csv`;
+
+// Every game a team (by MoneyPuck code) or goalie (by player ID) has played, all seasons,
+// one row per game and situation
+export const moneyPuckGameLogUrl = (type: GameType, kind: "teams" | "goalies", file: string) =>
+  `${MONEYPUCK_GAME_LOGS}/${type}/${kind}/${file}.csv`;
+
+// Cache key for anything season-specific
+export const seasonKey = (season: number, type: GameType, blend = false) =>
+  `${season}-${type}${blend ? "-blend" : ""}`;
+
+// --- BLENDING ---
+// Counting columns (goals, iceTime, ...) from last season are scaled down to
+// the missing number of games and added on; percentage columns are averaged
+// by games. Everything derived from totals (per-60 rates) follows naturally.
+const gamesOf = (row: any) => parseFloat(row?.games_played ?? row?.gamesPlayed) || 0;
+
+const IDENTITY_COLUMNS = new Set(["team", "name", "season", "situation", "position", "playerId", "team.1"]);
+
+export const blendRows = (current: any[], prior: any[], keyOf: (row: any) => string, fullWeightGames = BLEND_FULL_WEIGHT_GAMES) => {
+  const priorByKey = new Map(prior.map((row) => [keyOf(row), row]));
+
+  return current.map((row) => {
+    const old = priorByKey.get(keyOf(row));
+    const games = gamesOf(row);
+    const priorGames = gamesOf(old);
+    if (!old || priorGames <= 0 || games >= fullWeightGames) return row;
+
+    const phantomGames = fullWeightGames - games;
+    const scale = phantomGames / priorGames;
+    const blended: any = { ...row, blendWeight: games / fullWeightGames };
+
+    Object.keys(row).forEach((col) => {
+      if (IDENTITY_COLUMNS.has(col)) return;
+      const cur = parseFloat(row[col]);
+      const prev = parseFloat(old[col]);
+      if (isNaN(cur) || isNaN(prev)) return;
+      blended[col] = /percentage/i.test(col)
+        ? String((cur * games + prev * phantomGames) / fullWeightGames)
+        : String(cur + prev * scale);
+    });
+    return blended;
+  });
+};
+
+// Early in the regular season lean on last season; early in the playoffs lean on this regular season
+export const blendSource = (season: number, type: GameType) =>
+  type === "playoffs" ? { season, type: "regular" as GameType } : { season: season - 1, type: "regular" as GameType };
+
+// ESPN scoreboard ?seasontype= (2 = regular season, 3 = postseason)
+export const espnSeasonType = (type: GameType) => (type === "playoffs" ? 3 : 2);
@@ -0,0 +1,152 @@
+// --- MONTE CARLO GAME SIMULATOR ---
+// Plays a matchup out N times using the same regulation goal rates as the
+// Poisson model, then adds 3-on-3 overtime and a shootout.
+// Every run is driven by a seeded PRNG so results are reproducible.
+import { LEAGUE, MatchupSide, matchupRates, ModelWeights } from "./model";
+
+const DEFAULT_SIMS = 10000;
+export const MAX_SIMS = 100000;
+
+// --- SHOOTOUT ---
+const SHOOTOUT_CONVERSION = 0.32;  // League-average shootout scoring rate
+const LEAGUE_SV_PERCENT = 0.905;
+const SHOOTOUT_ROUNDS = 3;
+
+// --- PRNG (mulberry32) ---
+export const createRng = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Knuth's method: fine for hockey-sized lambdas
+const samplePoisson = (lambda: number, rand: () => number) => {
+  const limit = Math.exp(-lambda);
+  let k = 0;
+  let p = rand();
+  while (p > limit) {
+    k++;
+    p *= rand();
+  }
+  return k;
+};
+
+// A shooter's chance of scoring, nudged by the opposing goalie's save percentage
+const shootoutConversion = (goalie: MatchupSide["goalie"]) => {
+  const sv = goalie?.svPct || LEAGUE_SV_PERCENT;
+  return Math.min(0.45, Math.max(0.2, SHOOTOUT_CONVERSION + (LEAGUE_SV_PERCENT - sv) * 2));
+};
+
+const simulateShootout = (homeConv: number, awayConv: number, rand: () => number) => {
+  let home = 0, away = 0;
+  for (let round = 1; round <= SHOOTOUT_ROUNDS; round++) {
+    if (rand() < homeConv) home++;
+    if (rand() < awayConv) away++;
+    const left = SHOOTOUT_ROUNDS - round;
+    if (home > away + left || away > home + left) return home > away;
+  }
+  // Sudden death
+  while (true) {
+    const h = rand() < homeConv;
+    const a = rand() < awayConv;
+    if (h !== a) return h;
+  }
+};
+
+export interface SimulationOptions {
+  sims?: number;
+  seed?: number;   // Integer; random (and reported) when left out
+  total?: number;  // Over/under line to price
+  weights?: ModelWeights;  // Defaults to DEFAULT_WEIGHTS (lib/model)
+}
+
+// --- MAIN ---
+export const simulateMatchup = (home: MatchupSide, away: MatchupSide, options: SimulationOptions = {}) => {
+  const sims = Math.min(MAX_SIMS, Math.max(1, Math.floor(options.sims || DEFAULT_SIMS)));
+  // No seed -> pick one and report it, so any run can be replayed. A seed that isn't an integer
+  // is refused rather than swapped for a random one, which would quietly break the replay.
+  if (options.seed !== undefined && !Number.isSafeInteger(options.seed)) throw new RangeError(`Invalid seed ${options.seed}`);
+  const seed = options.seed ?? Math.floor(Math.random() * 2 ** 31);
+  const totalLine = Number.isFinite(options.total) ? options.total! : 6.5;
+  const rand = createRng(seed);
+
+  const { homeXg, awayXg } = matchupRates(home, away, options.weights);
+  const otRate = (homeXg + awayXg) * LEAGUE.otRateMultiplier / 60; // Goals per minute at 3-on-3
+  const homeOtShare = homeXg / (homeXg + awayXg);
+  const homeSoConv = shootoutConversion(away.goalie);
+  const awaySoConv = shootoutConversion(home.goalie);
+
+  const scorelines: Record<string, number> = {};
+  const wins = { home: { regulation: 0, overtime: 0, shootout: 0 }, away: { regulation: 0, overtime: 0, shootout: 0 } };
+  let homeCover = 0, awayCover = 0;   // -1.5
+  let over = 0, under = 0, push = 0;
+  let goalsSum = 0;
+
+  for (let i = 0; i < sims; i++) {
+    let h = samplePoisson(homeXg, rand);
+    let a = samplePoisson(awayXg, rand);
+
+    if (h > a) wins.home.regulation++;
+    else if (a > h) wins.away.regulation++;
+    else {
+      // Exponential time to the first 3-on-3 goal
+      const firstGoal = -Math.log(1 - rand()) / otRate;
+      if (firstGoal <= LEAGUE.otMinutes) {
+        if (rand() < homeOtShare) { h++; wins.home.overtime++; }
+        else { a++; wins.away.overtime++; }
+      } else if (simulateShootout(homeSoConv, awaySoConv, rand)) {
+        // The shootout winner is credited with one goal
+        h++; wins.home.shootout++;
+      } else {
+        a++; wins.away.shootout++;
+      }
+    }
+
+    const key = `${h}-${a}`;
+    scorelines[key] = (scorelines[key] || 0) + 1;
+
+    if (h - a >= 2) homeCover++;
+    if (a - h >= 2) awayCover++;
+
+    const total = h + a;
+    goalsSum += total;
+    if (total > totalLine) over++;
+    else if (total < totalLine) under++;
+    else push++;
+  }
+
+  const pct = (count: number) => parseFloat((count / sims).toFixed(4));
+  const homeWins = wins.home.regulation + wins.home.overtime + wins.home.shootout;
+
+  const distribution = Object.entries(scorelines)
+    .map(([score, count]) => {
+      const [h, a] = score.split("-").map(Number);
+      return { home: h, away: a, probability: pct(count) };
+    })
+    .sort((x, y) => y.probability - x.probability);
+
+  return {
+    model: "monte-carlo-v1",
+    sims,
+    seed,
+    rates: { home: parseFloat(homeXg.toFixed(3)), away: parseFloat(awayXg.toFixed(3)) },
+    moneyline: { home: pct(homeWins), away: pct(sims - homeWins) },
+    outcomes: {
+      home: { regulation: pct(wins.home.regulation), overtime: pct(wins.home.overtime), shootout: pct(wins.home.shootout) },
+      away: { regulation: pct(wins.away.regulation), overtime: pct(wins.away.overtime), shootout: pct(wins.away.shootout) },
+    },
+    puckLine: {
+      homeMinus1_5: pct(homeCover),
+      homePlus1_5: pct(sims - awayCover),
+      awayMinus1_5: pct(awayCover),
+      awayPlus1_5: pct(sims - homeCover),
+    },
+    totals: { line: totalLine, over: pct(over), under: pct(under), push: pct(push), averageGoals: parseFloat((goalsSum / sims).toFixed(2)) },
+    scorelines: distribution,
+  };
+};
@@ -0,0 +1,119 @@
+// --- UPSTREAM LOADERS ---
+// Shared fetchers for MoneyPuck, ESPN and odds feeds. All of them go through lib/cache, so
+// every function shares the same TTLs, stale handling and in-flight de-duplication,
+// and through lib/http, so tests can replay recorded responses.
+// What they serve is checked against lib/rows; problems land on the `sources` entry.
+import { parse } from "csv-parse/sync";
+import { cachedFetch, SourceMeta } from "./cache";
+import { httpGet } from "./http";
+import { GameType, blendRows, blendSource, espnSeasonType, moneyPuckGameLogUrl, moneyPuckUrl, seasonKey } from "./season";
+import { moneyPuckTeamCode, normalizeTeamCode } from "./teams";
+import { recordLines } from "./lines";
+import { recordLiveStates } from "./live";
+import { RowContract, validateRows, validateScoreboard } from "./rows";
+import { CsvRow, EspnEvent } from "./types";
+
+export const ESPN_SCOREBOARD_URL = "https://site.api.espn.com/apis/site/v2/sports/hockey/nhl/scoreboard";
+
+// --- VALIDATION ---
+// Runs on every load (cached data included), so a renamed column is reported on each
+// response that used it rather than once per cache refresh
+const checked = async <T>(key: string, load: Promise<T>, check: (value: T) => string[], sources?: SourceMeta[]) => {
+  const value = await load;
+  const warnings = check(value);
+  if (warnings.length) {
+    console.warn(`Upstream data problems in ${key}:`, warnings);
+    const meta = sources?.filter((m) => m.key === key).pop();
+    if (meta) meta.warnings = warnings;
+  }
+  return value;
+};
+
+const loadCsv = (key: string, contract: RowContract, url: string, label: string, sources?: SourceMeta[]) =>
+  checked(key, cachedFetch<CsvRow[]>("moneypuck", key, async () => {
+    console.log(`Fetching MoneyPuck ${label}...`);
+    const res = await httpGet(url);
+    return parse(res.data, { columns: true, skip_empty_lines: true });
+  }, sources), (rows) => validateRows(rows, contract), sources);
+
+// One MoneyPuck season summary CSV, parsed into rows
+export const loadMoneyPuckCsv = (season: number, type: GameType, file: "teams" | "goalies" | "skaters", sources?: SourceMeta[]) =>
+  loadCsv(`${file}:${seasonKey(season, type)}`, file, moneyPuckUrl(season, type, file), `${file} ${seasonKey(season, type)}`, sources);
+
+// The same file with ?blend: small current samples topped up with the prior data (lib/season).
+// Nothing published for the current season yet leaves the prior data; the failure stays on `sources`.
+export const loadSeasonCsv = async (season: number, type: GameType, file: "teams" | "goalies" | "skaters", blend: boolean, sources?: SourceMeta[]) => {
+  if (!blend) return loadMoneyPuckCsv(season, type, file, sources);
+
+  const source = blendSource(season, type);
+  const [prior, current] = await Promise.all([
+    loadMoneyPuckCsv(source.season, source.type, file, sources),
+    loadMoneyPuckCsv(season, type, file, sources).catch((): CsvRow[] => [])
+  ]);
+  const keyOf = file === "teams"
+    ? (row: CsvRow) => `${normalizeTeamCode(row.team)}|${row.situation}`
+    : (row: CsvRow) => `${row.playerId || row.name}|${row.situation}`;
+  return current.length ? blendRows(current, prior, keyOf) : prior;
+};
+
+// One team's game-by-game log (every season), parsed into rows
+export const loadTeamGameLog = (type: GameType, teamCode: string, sources?: SourceMeta[]) =>
+  loadCsv(`gamelog:${type}:${teamCode}`, "teamGameLog", moneyPuckGameLogUrl(type, "teams", moneyPuckTeamCode(teamCode)),
+    `game log ${type} ${teamCode}`, sources);
+
+// One goalie's game-by-game log (every season), by NHL player ID
+export const loadGoalieGameLog = (type: GameType, playerId: string, sources?: SourceMeta[]) =>
+  loadCsv(`goalie-gamelog:${type}:${playerId}`, "goalieGameLog", moneyPuckGameLogUrl(type, "goalies", playerId),
+    `goalie game log ${type} ${playerId}`, sources);
+
+// Every upstream scoreboard fetch also snapshots the lines of games that aren't final
+// (see lib/lines) and the state of games in progress (see lib/live).
+const fetchScoreboard = async (query: string) => {
+  const res = await httpGet(query ? `${ESPN_SCOREBOARD_URL}?${query}` : ESPN_SCOREBOARD_URL);
+  await recordLines(res.data.events || []).catch((e) => console.error("Failed to store odds snapshots:", e));
+  await recordLiveStates(res.data.events || []).catch((e) => console.error("Failed to store live states:", e));
+  return res.data;
+};
+
+// ESPN scoreboard for a date (YYYY-MM-DD or YYYYMMDD, default today), optionally by game type
+export const loadScoreboard = (options: { date?: string; type?: GameType } = {}, sources?: SourceMeta[]) => {
+  const query = [
+    options.date && `dates=${options.date.replace(/-/g, "")}`,
+    options.type && `seasontype=${espnSeasonType(options.type)}`
+  ].filter(Boolean).join("&");
+  const key = `scoreboard:${query || "today"}`;
+  return checked(key, cachedFetch<any>("espn", key, () => fetchScoreboard(query), sources), validateScoreboard, sources);
+};
+
+// Every game in an inclusive range of days (YYYYMMDD), in one request. ESPN pages the
+// events, so the limit is explicit (a month of NHL games is ~230); a full page may have
+// been cut short and is flagged on the source.
+export const SCOREBOARD_RANGE_LIMIT = 1000;
+
+export const loadScoreboardRange = (from: string, to: string, sources?: SourceMeta[]) => {
+  const key = `scoreboard:dates=${from}-${to}`;
+  const query = `dates=${from}-${to}&limit=${SCOREBOARD_RANGE_LIMIT}`;
+  const check = (data: { events?: EspnEvent[] }) => [
+    ...validateScoreboard(data),
+    ...((data?.events?.length ?? 0) >= SCOREBOARD_RANGE_LIMIT ? [`scoreboard: ${data.events!.length} events for ${from}-${to} fills the page, later games may be missing`] : []),
+  ];
+  return checked(key, cachedFetch<any>("espn", key, () => fetchScoreboard(query), sources), check, sources);
+};
+
+// --- ODDS FEEDS ---
+// CSV text, or JSON: an array of rows or { odds: [...] }. JSON values become strings so
+// both shapes read like CSV rows (see lib/providers for the columns).
+export const parseOddsFeed = (data: any): CsvRow[] => {
+  if (typeof data === "string") return parse(data, { columns: true, skip_empty_lines: true, trim: true });
+  const rows = Array.isArray(data) ? data : data?.odds || [];
+  return rows.map((row: any) =>
+    Object.fromEntries(Object.entries(row).map(([col, value]) => [col, value === null || value === undefined ? "" : String(value)])));
+};
+
+export const loadOddsFeed = (url: string, sources?: SourceMeta[]) => {
+  const key = `feed:${url.replace(/^https?:\/\//, "")}`;
+  return checked(key, cachedFetch<CsvRow[]>("odds-feed", key, async () => {
+    console.log(`Fetching odds feed ${url}...`);
+    return parseOddsFeed((await httpGet(url)).data);
+  }, sources), (rows) => validateRows(rows, "oddsFeed"), sources);
+};
@@ -0,0 +1,183 @@
+// --- STARTING GOALIE TRACKER ---
+// Reads the NHL schedule for a given date and labels each team's starter:
+//   confirmed          - the game has started, or the NHL flags the starter as confirmed
+//   probable           - the NHL lists a starter before puck drop
+//   projected-by-usage - nobody listed; we pick from season usage (backup on a back-to-back)
+//   unknown            - no listing and no goalie data to project from
+import { httpGet } from "./http";
+import { normalizeTeamCode } from "./teams";
+import { parseDateParam } from "./season";
+import { cachedFetch, SourceMeta } from "./cache";
+import { readRecord, updateRecord } from "./store";
+import { PlayerAccessors, resolvePlayer } from "./players";
+
+const NHL_SCHEDULE_URL = "https://api-web.nhle.com/v1/schedule";
+
+export type StarterStatus = "confirmed" | "probable" | "projected-by-usage" | "unknown";
+
+export interface TeamStarter {
+  team: string;
+  opponent: string;
+  gameId: string | null;
+  gameState: string | null;
+  backToBack: boolean;      // Team also played the previous day
+  goalie: { name: string; playerId: string | null } | null;
+  status: StarterStatus;
+  firstSeen: string | null; // When this listing first showed up upstream
+  lastSeen: string | null;  // When it was last seen upstream
+}
+
+export type StarterMap = Record<string, TeamStarter>;
+
+// --- LISTING HISTORY ---
+// Persisted per date so a starter keeps its first-seen time across fetches and cold starts.
+// Keyed by `${gameId}|${team}|${playerId or name}`.
+type Sightings = Record<string, { firstSeen: string; lastSeen: string }>;
+
+const sightingsKey = (date: string) => `starter-sightings:${date}`;
+
+// Marks each listing as seen now; a store failure only costs the first-seen times
+const recordSightings = async (date: string, keys: string[], now: string): Promise<Sightings> => {
+  const seen = (current: Sightings | null) =>
+    Object.fromEntries(keys.map((key) => [key, { firstSeen: current?.[key]?.firstSeen || now, lastSeen: now }])) as Sightings;
+  try {
+    const stored = await updateRecord<Sightings>(sightingsKey(date), (current) => ({ ...current, ...seen(current) }));
+    return stored || seen(null);
+  } catch (e) {
+    console.error("Failed to store starter sightings:", e);
+    return seen(null);
+  }
+};
+
+// The NHL's calendar day (YYYY-MM-DD): late games in the east are already tomorrow in UTC
+export const easternDate = (at: Date) =>
+  new Intl.DateTimeFormat("en-CA", { timeZone: "America/New_York" }).format(at);
+
+export const todayEastern = () => easternDate(new Date());
+
+const shiftDate = (date: string, days: number) => {
+  const parsed = parseDateParam(date) || new Date();
+  parsed.setUTCDate(parsed.getUTCDate() + days);
+  return parsed.toISOString().split("T")[0];
+};
+
+const STARTED_STATES = new Set(["LIVE", "CRIT", "FINAL", "OFF"]);
+
+const goalieName = (g: any) => `${g.firstName?.default ?? g.firstName ?? ""} ${g.lastName?.default ?? g.lastName ?? ""}`.trim();
+
+// --- STATUS LOG ---
+// Persisted per date and team: one entry each time the listed goalie or status changes.
+// The odds history uses it to explain line moves (see lib/lines).
+export interface StarterChange {
+  at: string;
+  team: string;
+  goalie: string | null;
+  playerId: string | null;
+  status: StarterStatus;
+}
+
+const starterLogKey = (date: string, team: string) => `starter-log:${date}:${team}`;
+
+const recordStarterChange = (date: string, entry: TeamStarter) =>
+  updateRecord<StarterChange[]>(starterLogKey(date, entry.team), (current) => {
+    const log = current || [];
+    const last = log[log.length - 1];
+    const goalie = entry.goalie?.name ?? null;
+    if (last && last.goalie === goalie && last.status === entry.status) return undefined;
+    return [...log, { at: new Date().toISOString(), team: entry.team, goalie, playerId: entry.goalie?.playerId ?? null, status: entry.status }];
+  });
+
+export const loadStarterLog = async (date: string, team: string) =>
+  (await readRecord<StarterChange[]>(starterLogKey(date, team))) || [];
+
+// --- LOADER ---
+// Fetches the schedule from the day before, so back-to-backs come from the same response.
+const fetchStarters = async (target: string): Promise<StarterMap> => {
+  console.log(`Fetching NHL Schedule for Starters (${target})...`);
+  const now = new Date().toISOString();
+  const yesterday = shiftDate(target, -1);
+  const nhlRes = await httpGet(`${NHL_SCHEDULE_URL}/${yesterday}`);
+  const days: any[] = nhlRes.data.gameWeek || [];
+
+  const gamesOn = (day: string) => days.find((d: any) => d.date === day)?.games || [];
+  const playedYesterday = new Set<string>();
+  gamesOn(yesterday).forEach((game: any) => {
+    playedYesterday.add(normalizeTeamCode(game.homeTeam?.abbrev));
+    playedYesterday.add(normalizeTeamCode(game.awayTeam?.abbrev));
+  });
+
+  const starters: StarterMap = {};
+  const listings: Record<string, string> = {}; // team -> sightings key
+  gamesOn(target).forEach((game: any) => {
+    const sides = [[game.homeTeam, game.awayTeam], [game.awayTeam, game.homeTeam]];
+    sides.forEach(([side, opp]) => {
+      if (!side) return;
+      const team = normalizeTeamCode(side.abbrev);
+      const listed = side.startingGoalie;
+
+      let goalie: TeamStarter["goalie"] = null;
+      let status: StarterStatus = "unknown";
+
+      if (listed) {
+        const playerId = listed.playerId ?? listed.id ?? null;
+        goalie = { name: goalieName(listed), playerId: playerId !== null ? String(playerId) : null };
+        status = STARTED_STATES.has(game.gameState) || listed.confirmed === true ? "confirmed" : "probable";
+
+        listings[team] = `${game.id}|${team}|${goalie.playerId || goalie.name}`;
+      }
+
+      starters[team] = {
+        team,
+        opponent: normalizeTeamCode(opp?.abbrev),
+        gameId: game.id !== undefined ? String(game.id) : null,
+        gameState: game.gameState || null,
+        backToBack: playedYesterday.has(team),
+        goalie,
+        status,
+        firstSeen: null,
+        lastSeen: null
+      };
+    });
+  });
+
+  if (Object.keys(listings).length) {
+    const seen = await recordSightings(target, Object.values(listings), now);
+    Object.entries(listings).forEach(([team, key]) => {
+      starters[team].firstSeen = seen[key].firstSeen;
+      starters[team].lastSeen = seen[key].lastSeen;
+    });
+  }
+
+  await Promise.all(Object.values(starters).map((entry) => recordStarterChange(target, entry)))
+    .catch((e) => console.error("Failed to store starter changes:", e));
+  return starters;
+};
+
+// Cached as the "nhl-schedule" source; with no data at all, every team is simply absent.
+export const loadStarters = async (date?: string, sources?: SourceMeta[]): Promise<StarterMap> => {
+  const target = date && parseDateParam(date) ? shiftDate(date, 0) : todayEastern();
+  try {
+    return await cachedFetch("nhl-schedule", `starters:${target}`, () => fetchStarters(target), sources);
+  } catch (e) {
+    console.error("Failed to fetch NHL starters:", e);
+    return {};
+  }
+};
+
+// --- USAGE PROJECTION ---
+// With no listed starter, the goalie with the most games starts, except on the
+// second night of a back-to-back where the next goalie by games gets the nod.
+export const projectByUsage = <T>(teamGoalies: T[], gamesPlayed: (row: T) => number, backToBack: boolean) => {
+  const byUsage = [...teamGoalies].sort((a, b) => gamesPlayed(b) - gamesPlayed(a));
+  if (byUsage.length === 0) return null;
+  return backToBack && byUsage.length > 1 ? byUsage[1] : byUsage[0];
+};
+
+// Who starts for a team: the listed goalie (matched by NHL ID, then name),
+// otherwise the usage projection above. Null when there are no goalie rows.
+export const chooseStarter = <T>(teamGoalies: T[], entry: TeamStarter | undefined, get: PlayerAccessors<T>, gamesPlayed: (row: T) => number) => {
+  const listed = entry?.goalie ? resolvePlayer(teamGoalies, entry.goalie.name, get, entry.goalie.playerId).match : null;
+  if (listed) return { row: listed, status: entry!.status as string };
+  const pick = projectByUsage(teamGoalies, gamesPlayed, !!entry?.backToBack);
+  return pick ? { row: pick, status: "projected-by-usage" } : null;
+};
@@ -0,0 +1,46 @@
+// --- PERSISTENT STORE ---
+// Durable records (closing lines, ...) that never expire, unlike lib/cache.
+// Uses the same backends: SAVANT_STORE_DIR points it at a directory,
+// otherwise records only live as long as the function instance.
+// Records that grow (line history, starter logs, live states) go through updateRecord.
+import { CacheBackend, createFileBackend, createMemoryBackend } from "./cache";
+
+let store: CacheBackend = process.env.SAVANT_STORE_DIR
+  ? createFileBackend(process.env.SAVANT_STORE_DIR)
+  : createMemoryBackend();
+
+export const setStore = (next: CacheBackend) => {
+  store = next;
+};
+
+export const readRecord = async <T>(key: string): Promise<T | null> => {
+  const entry = await store.get(key);
+  return entry ? (entry.value as T) : null;
+};
+
+export const writeRecord = async <T>(key: string, value: T) => {
+  await store.set(key, { value, fetchedAt: Date.now() });
+};
+
+// --- LOCKED UPDATES ---
+// Read-modify-write under a per-key lock, so concurrent fetches in this instance
+// (e.g. two scoreboard loads recording the same game) don't overwrite each other.
+// `update` returns the new value, or undefined to leave the record as it is.
+const locks = new Map<string, Promise<unknown>>();
+
+export const updateRecord = <T>(key: string, update: (current: T | null) => T | undefined): Promise<T | null> => {
+  const previous = locks.get(key) || Promise.resolve();
+  const run = previous.catch(() => undefined).then(async () => {
+    const current = await readRecord<T>(key);
+    const next = update(current);
+    if (next === undefined) return current;
+    await writeRecord(key, next);
+    return next;
+  });
+  locks.set(key, run);
+  // Drop the lock once nothing is queued behind this update
+  run.catch(() => undefined).then(() => {
+    if (locks.get(key) === run) locks.delete(key);
+  });
+  return run;
+};
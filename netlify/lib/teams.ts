@@ -0,0 +1,128 @@
+// --- TEAM REGISTRY ---
+// One source of truth for team identity across ESPN, the NHL API and MoneyPuck.
+// Canonical codes are the NHL's three-letter abbreviations.
+import { errorResponse } from "./errors";
+
+export interface FranchiseHistory {
+  code: string;
+  name: string;
+  from: number;  // First season (start year)
+  to: number;    // Last season (start year)
+}
+
+export interface TeamInfo {
+  code: string;
+  city: string;
+  nickname: string;
+  name: string;
+  conference: "Eastern" | "Western";
+  division: "Atlantic" | "Metropolitan" | "Central" | "Pacific";
+  timezone: string;        // Home arena IANA timezone
+  aliases: string[];       // ESPN / MoneyPuck / legacy abbreviations
+  history: FranchiseHistory[];
+}
+
+type TeamSeed = Omit<TeamInfo, "name" | "aliases" | "history"> & Partial<Pick<TeamInfo, "aliases" | "history">>;
+
+const SEED: TeamSeed[] = [
+  // EASTERN - ATLANTIC
+  { code: "BOS", city: "Boston", nickname: "Bruins", conference: "Eastern", division: "Atlantic", timezone: "America/New_York" },
+  { code: "BUF", city: "Buffalo", nickname: "Sabres", conference: "Eastern", division: "Atlantic", timezone: "America/New_York" },
+  { code: "DET", city: "Detroit", nickname: "Red Wings", conference: "Eastern", division: "Atlantic", timezone: "America/Detroit" },
+  { code: "FLA", city: "Florida", nickname: "Panthers", conference: "Eastern", division: "Atlantic", timezone: "America/New_York" },
+  { code: "MTL", city: "Montréal", nickname: "Canadiens", conference: "Eastern", division: "Atlantic", timezone: "America/Toronto" },
+  { code: "OTT", city: "Ottawa", nickname: "Senators", conference: "Eastern", division: "Atlantic", timezone: "America/Toronto" },
+  { code: "TBL", city: "Tampa Bay", nickname: "Lightning", conference: "Eastern", division: "Atlantic", timezone: "America/New_York", aliases: ["TB", "T.B"] },
+  { code: "TOR", city: "Toronto", nickname: "Maple Leafs", conference: "Eastern", division: "Atlantic", timezone: "America/Toronto" },
+
+  // EASTERN - METROPOLITAN
+  { code: "CAR", city: "Carolina", nickname: "Hurricanes", conference: "Eastern", division: "Metropolitan", timezone: "America/New_York",
+    history: [{ code: "HFD", name: "Hartford Whalers", from: 1979, to: 1996 }] },
+  { code: "CBJ", city: "Columbus", nickname: "Blue Jackets", conference: "Eastern", division: "Metropolitan", timezone: "America/New_York" },
+  { code: "NJD", city: "New Jersey", nickname: "Devils", conference: "Eastern", division: "Metropolitan", timezone: "America/New_York", aliases: ["NJ", "N.J"],
+    history: [{ code: "CLR", name: "Colorado Rockies", from: 1976, to: 1981 }] },
+  { code: "NYI", city: "New York", nickname: "Islanders", conference: "Eastern", division: "Metropolitan", timezone: "America/New_York" },
+  { code: "NYR", city: "New York", nickname: "Rangers", conference: "Eastern", division: "Metropolitan", timezone: "America/New_York" },
+  { code: "PHI", city: "Philadelphia", nickname: "Flyers", conference: "Eastern", division: "Metropolitan", timezone: "America/New_York" },
+  { code: "PIT", city: "Pittsburgh", nickname: "Penguins", conference: "Eastern", division: "Metropolitan", timezone: "America/New_York" },
+  { code: "WSH", city: "Washington", nickname: "Capitals", conference: "Eastern", division: "Metropolitan", timezone: "America/New_York" },
+
+  // WESTERN - CENTRAL
+  { code: "CHI", city: "Chicago", nickname: "Blackhawks", conference: "Western", division: "Central", timezone: "America/Chicago" },
+  { code: "COL", city: "Colorado", nickname: "Avalanche", conference: "Western", division: "Central", timezone: "America/Denver",
+    history: [{ code: "QUE", name: "Quebec Nordiques", from: 1979, to: 1994 }] },
+  { code: "DAL", city: "Dallas", nickname: "Stars", conference: "Western", division: "Central", timezone: "America/Chicago",
+    history: [{ code: "MNS", name: "Minnesota North Stars", from: 1967, to: 1992 }] },
+  { code: "MIN", city: "Minnesota", nickname: "Wild", conference: "Western", division: "Central", timezone: "America/Chicago" },
+  { code: "NSH", city: "Nashville", nickname: "Predators", conference: "Western", division: "Central", timezone: "America/Chicago" },
+  { code: "STL", city: "St. Louis", nickname: "Blues", conference: "Western", division: "Central", timezone: "America/Chicago" },
+  // Utah took over the Coyotes' hockey operations in 2024. Older ARI/PHX data maps here.
+  { code: "UTA", city: "Utah", nickname: "Mammoth", conference: "Western", division: "Central", timezone: "America/Denver",
+    aliases: ["UTAH", "Utah Hockey Club", "Utah HC"],
+    history: [
+      { code: "WIN", name: "Winnipeg Jets (1979)", from: 1979, to: 1995 },
+      { code: "PHX", name: "Phoenix Coyotes", from: 1996, to: 2013 },
+      { code: "ARI", name: "Arizona Coyotes", from: 2014, to: 2023 },
+    ] },
+  { code: "WPG", city: "Winnipeg", nickname: "Jets", conference: "Western", division: "Central", timezone: "America/Winnipeg",
+    history: [{ code: "ATL", name: "Atlanta Thrashers", from: 1999, to: 2010 }] },
+
+  // WESTERN - PACIFIC
+  { code: "ANA", city: "Anaheim", nickname: "Ducks", conference: "Western", division: "Pacific", timezone: "America/Los_Angeles" },
+  { code: "CGY", city: "Calgary", nickname: "Flames", conference: "Western", division: "Pacific", timezone: "America/Edmonton" },
+  { code: "EDM", city: "Edmonton", nickname: "Oilers", conference: "Western", division: "Pacific", timezone: "America/Edmonton" },
+  { code: "LAK", city: "Los Angeles", nickname: "Kings", conference: "Western", division: "Pacific", timezone: "America/Los_Angeles", aliases: ["LA", "L.A"] },
+  { code: "SEA", city: "Seattle", nickname: "Kraken", conference: "Western", division: "Pacific", timezone: "America/Los_Angeles" },
+  { code: "SJS", city: "San Jose", nickname: "Sharks", conference: "Western", division: "Pacific", timezone: "America/Los_Angeles", aliases: ["SJ", "S.J"] },
+  { code: "VAN", city: "Vancouver", nickname: "Canucks", conference: "Western", division: "Pacific", timezone: "America/Vancouver" },
+  { code: "VGK", city: "Vegas", nickname: "Golden Knights", conference: "Western", division: "Pacific", timezone: "America/Los_Angeles", aliases: ["VEG", "LV"] },
+];
+
+export const TEAMS: TeamInfo[] = SEED.map((t) => ({
+  ...t,
+  name: `${t.city} ${t.nickname}`,
+  aliases: t.aliases || [],
+  history: t.history || [],
+}));
+
+export const TEAM_CODES = TEAMS.map((t) => t.code).sort();
+
+// --- LOOKUP INDEX ---
+// Keys are folded: lowercase, accents stripped, punctuation dropped ("Montréal" -> "montreal", "S.J" -> "sj")
+const fold = (input: string) =>
+  input.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().replace(/[^a-z0-9]/g, "");
+
+const INDEX = new Map<string, TeamInfo>();
+TEAMS.forEach((team) => {
+  const keys = [
+    team.code, team.name, team.nickname, ...team.aliases,
+    ...team.history.flatMap((h) => [h.code, h.name]),
+  ];
+  keys.forEach((key) => INDEX.set(fold(key), team));
+});
+// "New York" alone is ambiguous, so city names only index where unique
+const cityCounts = TEAMS.reduce((acc, t) => acc.set(t.city, (acc.get(t.city) || 0) + 1), new Map<string, number>());
+TEAMS.forEach((team) => {
+  if (cityCounts.get(team.city) === 1 && !INDEX.has(fold(team.city))) INDEX.set(fold(team.city), team);
+});
+
+// Any code, alias, full name, nickname or former franchise -> TeamInfo (null when unknown)
+export const resolveTeam = (input?: string | null): TeamInfo | null => {
+  if (!input) return null;
+  return INDEX.get(fold(input)) || null;
+};
+
+// For upstream data: canonical code when known, otherwise the raw value
+// (upper-cased, never truncated) so a new or odd code stays visible.
+export const normalizeTeamCode = (input?: string | null) => {
+  if (!input) return "UNK";
+  return resolveTeam(input)?.code || input.trim().toUpperCase();
+};
+
+// MoneyPuck still uses the dotted codes for four teams (files and `team` columns)
+const MONEYPUCK_CODES: Record<string, string> = { TBL: "T.B", NJD: "N.J", LAK: "L.A", SJS: "S.J" };
+export const moneyPuckTeamCode = (code: string) => MONEYPUCK_CODES[code] || code;
+
+// 400 for user-supplied team parameters that don't resolve
+export const unknownTeamResponse = (inputs: string[]) =>
+  errorResponse("UNKNOWN_TEAM", "Unknown team", { unknown: inputs, validCodes: TEAM_CODES });
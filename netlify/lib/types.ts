@@ -0,0 +1,231 @@
+// --- SHARED TYPES ---
+// Response contracts for savant-api, goalie-stats, nhl-odds and skater-stats.
+// lib/openapi describes the same shapes for client generators; keep the two in step.
+import { SourceMeta } from "./cache";
+import { ErrorCode } from "./errors";
+import { TeamFatigue } from "./fatigue";
+import { ParsedMarket } from "./odds";
+import { MatchStatus } from "./players";
+import { GameLines } from "./providers";
+import { GameType } from "./season";
+
+// --- UPSTREAM ROWS ---
+// One parsed CSV line (csv-parse with `columns: true`): every value is still a string
+export type CsvRow = Record<string, string>;
+
+// One ESPN scoreboard event, as far as the handlers read it
+export interface EspnCompetitor {
+  homeAway: "home" | "away";
+  score?: string;
+  team?: { abbreviation?: string; displayName?: string; logo?: string };
+}
+
+export interface EspnEvent {
+  id: string;
+  date: string;                             // Start time (ISO)
+  season?: { year: number; type: number };  // type 1 preseason, 2 regular season, 3 playoffs
+  status?: { period?: number; displayClock?: string; type?: { state?: string; completed?: boolean; shortDetail?: string } };
+  competitions?: { competitors?: EspnCompetitor[]; odds?: any[] }[];
+}
+
+// --- COMMON ---
+export interface SeasonInfo {
+  season: number | "by-date";
+  type: GameType;
+  blended?: boolean;
+}
+
+// Error envelope (lib/errors); successful bodies carry `warnings` (lib/warnings) next to `sources`
+export interface ErrorBody {
+  error: string;
+  code: ErrorCode;
+  details?: string | string[];
+  sources?: SourceMeta[];
+}
+
+// `match` on goalie-stats and skater-stats: how a ?name= query resolved (lib/players)
+export interface PlayerNameMatch {
+  query: string;
+  status: MatchStatus;
+  candidates: { playerId: string | null; name: string; team?: string }[];   // Only when ambiguous
+}
+
+// --- SCHEDULE (savant-api ?action=schedule) ---
+export interface GameTeam {
+  name: string;
+  code: string;
+  score: string;    // As ESPN sends it ("0" before puck drop)
+  logo: string;
+}
+
+export interface Game {
+  id: string;
+  date: string;     // Start time (ISO)
+  status: string;   // "7:00 PM ET", "Final/OT", ...
+  homeTeam: GameTeam;
+  awayTeam: GameTeam;
+}
+
+// --- MATCHUPS (savant-api full / predict / simulate / slate) ---
+export interface GoalieSummary {
+  name: string;
+  playerId: string | null;
+  gsax: number;     // GSAx per 60
+  gaa: number;
+  svPct: number;
+  status: string;   // StarterStatus, or "requested"
+  lastSeen: string | null;
+  backToBack: boolean | null;
+}
+
+export interface TeamStats {
+  name: string;
+  gfPerGame: number;
+  xgfPercent: number;
+  gaPerGame: number;
+  xgaPer60: number;
+  ppPercent: number;
+  pkPercent: number;
+  pimsPerGame: number;
+  corsiPercent: number;
+  faceoffPercent: number;
+  shootingPercent: number;
+  hdcfPercent: number;
+  goalie: GoalieSummary;
+  fatigue: TeamFatigue | null;
+}
+
+// Summary of the game's books (lib/providers): the primary book's line and the consensus total
+export interface MatchupOdds {
+  source: string;       // Provider of the primary book ("ESPN", "Feed", "File"), or "Not Found"
+  line: string;
+  total: number;
+  totalSource: string;  // The one provider with a total, "Consensus" (median of several) or "Default" (6.5)
+}
+
+// Elo ratings going into the game (lib/ratings); null when the scoreboard history failed
+export interface SideRating {
+  team: string;
+  rating: number;
+  games: number;
+  goalieAdjustment: number;  // Rating points for the starter against the team's usual goaltending
+}
+
+export interface MatchupRatings {
+  through: string;           // Last day of games included (YYYYMMDD)
+  home: SideRating;
+  away: SideRating;
+  homeWinProbability: number;
+}
+
+// --- ODDS (nhl-odds) ---
+export type OddsMarket = ParsedMarket & { favoriteCode: string | null };
+
+export interface OddsTeam {
+  name: string;
+  code: string;
+  score: number;
+  record: string;
+}
+
+export interface OddsGame {
+  gameId: string;
+  date: string;
+  status: string;
+  period: number;
+  clock: string;
+  homeTeam: OddsTeam;
+  awayTeam: OddsTeam;
+  market: OddsMarket;
+  lines: GameLines;
+}
+
+// --- GOALIES (goalie-stats) ---
+export interface GoalieSituation {
+  minutes: number;
+  shots: number;
+  goalsAgainst: number;
+  svPercent: number;
+  gsax: number;
+  gsaxPer60: number;
+}
+
+export interface DangerBand {
+  shots: number;
+  goals: number;
+  xGoals: number;
+  svPercent: number | null;
+}
+
+export interface GoalieForm {
+  games: number;
+  gaa: number;
+  svPercent: number;
+  gsax: number;
+  gsaxPer60: number;
+  log: { date: string; opponent: string; shots: number; goalsAgainst: number; gsax: number }[];
+}
+
+export interface GoalieStarterInfo {
+  isStarter: boolean;
+  status: string;   // StarterStatus, "not-starting", "no-game" or "unknown"
+  lastSeen: string | null;
+  backToBack: boolean | null;
+}
+
+export interface GoalieStats {
+  playerId: string | null;
+  name: string;
+  team: string;
+  gamesPlayed: number;
+  stats: {
+    gaa: number;
+    svPercent: number;
+    gsaxPer60: number;
+    totalGSAx: number;
+    svPercentShrunk: number;
+    gsaxPer60Shrunk: number;
+    sample: { games: number; minutes: number; shots: number };
+  };
+  situations: Record<string, GoalieSituation>;
+  danger: Record<string, DangerBand>;
+  form: GoalieForm | null;
+  starter: GoalieStarterInfo;
+}
+
+// --- SKATERS (skater-stats) ---
+export interface SkaterSituation {
+  gamesPlayed: number;
+  toiPerGame: number;   // Minutes
+  goalsPer60: number;
+  xGoalsPer60: number;
+  shotsPer60: number;
+  pointsPer60: number;
+  totals: { goals: number; xGoals: number; shots: number; points: number };
+}
+
+// Tonight's opponent, as seen from the skater's team
+export interface SkaterOpponent {
+  opponent: string;
+  gameId: string | null;
+  opponentXgaPer60: number;
+  opponentGoalie: { name: string; playerId: string | null; status: string; gsaxPer60: number } | null;
+}
+
+export interface SkaterTonight extends SkaterOpponent {
+  projectedToi: number;
+  adjustments: { defense: number; goalie: number };
+  shotsOnGoal: { projection: number; over: Record<string, number> };
+  points: { projection: number; over: Record<string, number> };
+  goals: { projection: number; anytime: number };
+}
+
+export interface SkaterStats {
+  playerId: string | null;
+  name: string;
+  team: string;
+  position: string | null;
+  gamesPlayed: number;
+  situations: Record<string, SkaterSituation>;
+  tonight: SkaterTonight | null;
+}
@@ -0,0 +1,73 @@
+// --- RESPONSE WARNINGS ---
+// A 200 can still be built on degraded inputs: an upstream that failed and was skipped,
+// last-known-good data, renamed CSV columns, a missing market with the 6.5 default total...
+// Every successful response carries `warnings` next to `sources` so callers can tell.
+//   { code: "<WARNING_CODE>", message: "<human-readable>", source?, game? }
+import { SourceMeta } from "./cache";
+import { ParsedMarket } from "./odds";
+
+export type WarningCode =
+  | "SOURCE_UNAVAILABLE"  // An upstream failed with nothing cached; the response went on without it
+  | "SOURCE_FALLBACK"     // An upstream failed; last-known-good data was served
+  | "SOURCE_STALE"        // Cached data past its TTL (a refresh is running)
+  | "UPSTREAM_DATA"       // The upstream answered with missing columns or unreadable values (lib/rows)
+  | "ODDS_NOT_FOUND"      // No market for the game
+  | "ODDS_INCOMPLETE"     // A market with some prices missing (see market.missing)
+  | "TOTAL_DEFAULTED"     // No market total: the config's fallback (6.5 by default) was used
+  | "FATIGUE_UNAVAILABLE" // No recent schedule: rest/back-to-back factors left out
+  | "FORM_UNAVAILABLE"    // A goalie's game log couldn't be loaded
+  | "LIVE_CLOCK_UNREADABLE" // A game in progress with a clock ESPN sent in an unknown format: left unpriced
+  | "RATINGS_UNAVAILABLE"; // No scoreboard history: power ratings left out
+
+export interface ApiWarning {
+  code: WarningCode;
+  message: string;
+  source?: string;  // SourceMeta key ("<source>:<key>")
+  game?: string;    // ESPN event ID
+}
+
+export const warning = (code: WarningCode, message: string, extra: Pick<ApiWarning, "source" | "game"> = {}): ApiWarning => ({
+  code,
+  message,
+  ...extra,
+});
+
+// A slate game a handler left out of its results (savant-api slate and backtest `skipped`)
+export interface SkippedGame {
+  gameId: string;
+  date?: string;    // YYYYMMDD (backtest only)
+  home: string;
+  away: string;
+  reason: string;
+}
+
+// --- SOURCES ---
+const fromSource = (meta: SourceMeta): ApiWarning[] => {
+  const source = `${meta.source}:${meta.key}`;
+  const found: ApiWarning[] = [];
+  if (meta.fallback) found.push(warning("SOURCE_FALLBACK", `${meta.source} failed, served data from ${meta.fetchedAt} (${meta.error})`, { source }));
+  else if (meta.error) found.push(warning("SOURCE_UNAVAILABLE", `${meta.source} unavailable: ${meta.error}`, { source }));
+  else if (meta.stale) found.push(warning("SOURCE_STALE", `${meta.source} data is ${meta.ageSeconds}s old`, { source }));
+  (meta.warnings || []).forEach((message) => found.push(warning("UPSTREAM_DATA", message, { source })));
+  return found;
+};
+
+// --- MARKETS ---
+// One warning per game whose market is missing or only partly priced
+export const marketWarnings = (game: string, label: string, market: ParsedMarket): ApiWarning[] => {
+  if (market.available) return [];
+  if (market.missing.includes("all")) return [warning("ODDS_NOT_FOUND", `No odds for ${label}`, { game })];
+  return [warning("ODDS_INCOMPLETE", `Odds for ${label} are missing ${market.missing.join(", ")}`, { game })];
+};
+
+// --- MAIN ---
+// Source-level warnings first, then the handler's own; the same warning is listed once
+export const collectWarnings = (sources: SourceMeta[], extra: ApiWarning[] = []) => {
+  const seen = new Set<string>();
+  return [...sources.flatMap(fromSource), ...extra].filter((w) => {
+    const id = `${w.code}|${w.source || ""}|${w.game || ""}|${w.message}`;
+    if (seen.has(id)) return false;
+    seen.add(id);
+    return true;
+  });
+};
@@ -0,0 +1,93 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { handler } from "../netlify/functions/goalie-stats";
+import { download, invoke, sourceWarnings, useFixtures } from "./helpers";
+
+const GAME_DAY = "2024-11-14";
+
+describe("goalie-stats", () => {
+  beforeEach(() => {
+    useFixtures();
+  });
+
+  it("lists one entry per goalie with tonight's starters first", async () => {
+    const { status, body } = await invoke(handler, { date: GAME_DAY });
+    expect(status).toBe(200);
+    expect(body.count).toBe(12);
+    // All six teams play: one starter each, listed by the NHL or projected from usage
+    const starters = body.goalies.slice(0, 6);
+    expect(starters.every((g: any) => g.starter.isStarter)).toBe(true);
+    expect(new Set(starters.map((g: any) => g.team)).size).toBe(6);
+    expect(starters.filter((g: any) => g.starter.status === "probable").map((g: any) => g.name).sort())
+      .toEqual(["Anthony Stolarz", "Jeremy Swayman", "Karel Vejmelka"]);
+    expect(body.goalies.slice(6).every((g: any) => g.starter.status === "not-starting")).toBe(true);
+    expect(sourceWarnings(body)).toEqual([]);
+  });
+
+  it("computes save percentage and GSAx from MoneyPuck's columns", async () => {
+    const { body } = await invoke(handler, { date: GAME_DAY, name: "Stolarz" });
+    const [stolarz] = body.goalies;
+    expect(body.match.status).toBe("matched");
+    expect(stolarz.stats.svPercent).toBeCloseTo(1 - 20 / 252, 3);
+    expect(stolarz.stats.totalGSAx).toBe(-2);
+    expect(stolarz.stats.sample).toEqual({ games: 9, minutes: 540, shots: 252 });
+    expect(Object.keys(stolarz.situations).sort()).toEqual(["4on5", "5on5", "other"]);
+  });
+
+  it("loads recent form from the game logs", async () => {
+    const { body } = await invoke(handler, { date: GAME_DAY, team: "TOR", last: "3" });
+    const woll = body.goalies.find((g: any) => g.name === "Joseph Woll");
+    expect(body.form).toEqual({ games: 3, goalies: 2, limit: 12 });
+    expect(woll.form.games).toBe(3);
+    expect(woll.form.log.map((g: any) => g.date)).toEqual(["20241109", "20241102", "20241019"]);
+  });
+
+  it("marks every goalie as no-game on an empty day", async () => {
+    useFixtures("no-games");
+    const { body } = await invoke(handler, { date: "2024-11-18" });
+    expect(body.goalies.every((g: any) => g.starter.status === "no-game")).toBe(true);
+  });
+
+  it("projects starters by usage when none are listed", async () => {
+    useFixtures("missing-starters");
+    const { body } = await invoke(handler, { date: GAME_DAY, team: "BOS" });
+    const starter = body.goalies.find((g: any) => g.starter.isStarter);
+    // Boston played the night before: the backup gets the projection
+    expect(starter).toMatchObject({ name: "Joonas Korpisalo", starter: { status: "projected-by-usage", backToBack: true } });
+  });
+
+  it("warns about renamed columns and keeps GSAx neutral", async () => {
+    useFixtures("renamed-columns");
+    const { status, body } = await invoke(handler, { date: GAME_DAY, team: "TOR" });
+    expect(status).toBe(200);
+    expect(sourceWarnings(body)).toContain("goalies: missing column xGoals");
+    body.goalies.forEach((g: any) => expect(g.stats.totalGSAx).toBe(0));
+  });
+
+  it("downloads one CSV row per goalie", async () => {
+    const { status, headers, text } = await download(handler, { date: GAME_DAY, team: "TOR", format: "csv" });
+    expect(status).toBe(200);
+    expect(headers["Content-Disposition"]).toBe('attachment; filename="goalie-stats-2024-11-14.csv"');
+    const [header, ...rows] = text.trim().split("\r\n").map((line) => line.split(","));
+    expect(rows.map((row) => row[header.indexOf("name")])).toEqual(["Anthony Stolarz", "Joseph Woll"]);
+    expect(header).toEqual(expect.arrayContaining(["stats.gaa", "situations.5on5.svPercent", "danger.high.shots", "starter.status", "form"]));
+    expect(rows[0][header.indexOf("starter.status")]).toBe("probable");
+  });
+
+  it("has no calendar format", async () => {
+    const { status, body } = await invoke(handler, { date: GAME_DAY, format: "ics" });
+    expect(status).toBe(400);
+    expect(body.details).toEqual(['Unknown format "ics" (use json, csv)']);
+  });
+
+  it("rejects a date that doesn't parse", async () => {
+    const { status, body } = await invoke(handler, { date: "2024-11-31" });
+    expect(status).toBe(400);
+    expect(body).toMatchObject({ code: "INVALID_PARAMETERS", details: ['Invalid date "2024-11-31" (use YYYY-MM-DD or YYYYMMDD)'] });
+  });
+
+  it("rejects unknown teams", async () => {
+    const { status, body } = await invoke(handler, { date: GAME_DAY, team: "Nowhere" });
+    expect(status).toBe(400);
+    expect(body).toMatchObject({ code: "UNKNOWN_TEAM", unknown: ["Nowhere"] });
+  });
+});
@@ -0,0 +1,100 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { mkdtempSync, readdirSync, rmSync } from "fs";
+import os from "os";
+import path from "path";
+import { createRecordingClient, createReplayClient, fixtureName, getHttpClient, httpGet, HttpClient, RETRY_POLICY, setHttpClient, withRetries } from "../netlify/lib/http";
+import { UpstreamError } from "../netlify/lib/errors";
+
+const upstream: HttpClient = {
+  name: "stub",
+  get: async (url) => ({ data: url.endsWith(".csv") ? "team,situation\nTOR,all\n" : { events: [{ id: "1" }] } }),
+};
+
+describe("lib/http", () => {
+  const dirs: string[] = [];
+  const tempDir = () => {
+    const dir = mkdtempSync(path.join(os.tmpdir(), "savant-fixtures-"));
+    dirs.push(dir);
+    return dir;
+  };
+
+  afterEach(() => {
+    dirs.splice(0).forEach((dir) => rmSync(dir, { recursive: true, force: true }));
+  });
+
+  it("names fixtures after the URL", () => {
+    expect(fixtureName("https://site.api.espn.com/apis/site/v2/sports/hockey/nhl/scoreboard?dates=20241114"))
+      .toBe("site.api.espn.com_apis_site_v2_sports_hockey_nhl_scoreboard_dates=20241114");
+  });
+
+  it("replays exactly what it recorded, CSV as text and JSON as data", async () => {
+    const dir = tempDir();
+    const recorder = createRecordingClient(dir, upstream);
+    const csvUrl = "https://moneypuck.com/x/teams.csv";
+    const jsonUrl = "https://site.api.espn.com/scoreboard?dates=20241114";
+    await recorder.get(csvUrl);
+    await recorder.get(jsonUrl);
+    expect(readdirSync(dir).sort()).toEqual([`${fixtureName(csvUrl)}.txt`, `${fixtureName(jsonUrl)}.json`].sort());
+
+    const replay = createReplayClient(dir);
+    expect((await replay.get(csvUrl)).data).toBe("team,situation\nTOR,all\n");
+    expect((await replay.get(jsonUrl)).data).toEqual({ events: [{ id: "1" }] });
+  });
+
+  it("searches scenario directories before the base", async () => {
+    const base = tempDir();
+    const scenario = tempDir();
+    const url = "https://site.api.espn.com/scoreboard";
+    await createRecordingClient(base, upstream).get(url);
+    await createRecordingClient(scenario, { name: "empty", get: async () => ({ data: { events: [] } }) }).get(url);
+
+    expect((await createReplayClient([scenario, base]).get(url)).data).toEqual({ events: [] });
+    expect((await createReplayClient([base]).get(url)).data).toEqual({ events: [{ id: "1" }] });
+  });
+
+  it("fails on a URL with no fixture instead of going to the network", async () => {
+    await expect(createReplayClient(tempDir()).get("https://example.com/missing")).rejects.toThrow(/No fixture/);
+  });
+
+  describe("retries", () => {
+    const POLICY = { timeoutMs: 50, retries: 2, baseDelayMs: 1 };
+    const failing = (errors: any[]): HttpClient => ({
+      name: "flaky",
+      get: vi.fn(async () => {
+        const error = errors.shift();
+        if (error) throw error;
+        return { data: "ok" };
+      }),
+    });
+
+    it("retries timeouts and 5xx, then succeeds", async () => {
+      const inner = failing([{ code: "ECONNABORTED" }, { response: { status: 503 } }]);
+      expect((await withRetries(inner, POLICY).get("https://example.com")).data).toBe("ok");
+      expect(inner.get).toHaveBeenCalledTimes(3);
+    });
+
+    it("gives up on a 404 at once", async () => {
+      const inner = failing([{ response: { status: 404 } }]);
+      await expect(withRetries(inner, POLICY).get("https://example.com")).rejects.toMatchObject({ response: { status: 404 } });
+      expect(inner.get).toHaveBeenCalledTimes(1);
+    });
+
+    it("fits two rounds of worst-case fetches in Netlify's 10s limit", () => {
+      const { timeoutMs, retries, baseDelayMs } = RETRY_POLICY;
+      const backoff = Array.from({ length: retries }, (_, attempt) => baseDelayMs * 2 ** attempt * 1.5).reduce((a, b) => a + b, 0);
+      expect(2 * (timeoutMs * (retries + 1) + backoff)).toBeLessThan(10000);
+    });
+
+    it("surfaces what is left as an UpstreamError", async () => {
+      const previous = getHttpClient();
+      try {
+        setHttpClient(withRetries(failing([1, 2, 3].map(() => ({ code: "ETIMEDOUT" }))), POLICY));
+        const error = await httpGet("https://moneypuck.com/x/teams.csv").catch((e) => e);
+        expect(error).toBeInstanceOf(UpstreamError);
+        expect(error).toMatchObject({ code: "UPSTREAM_TIMEOUT", url: "https://moneypuck.com/x/teams.csv" });
+      } finally {
+        setHttpClient(previous);
+      }
+    });
+  });
+});
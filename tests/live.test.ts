@@ -0,0 +1,159 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { clockSeconds, eventLiveState, liveWinProbability, loadLiveStates, LiveState, recordLiveStates, unreadableClock, winProbabilityTimeline } from "../netlify/lib/live";
+import { LEAGUE, poissonPmf } from "../netlify/lib/model";
+import { createMemoryBackend } from "../netlify/lib/cache";
+import { setStore } from "../netlify/lib/store";
+
+const RATES = { homeXg: 3.3, awayXg: 2.7 };
+const HOME_SHARE = 3.3 / 6;
+
+const live = (period: number, clock: string, homeScore: number, awayScore: number, state = "in"): LiveState =>
+  ({ state, period, clock, homeScore, awayScore });
+
+// Regular-season overtime split for a full 5-minute period
+const otHome = (minutes: number) => {
+  const pGoal = 1 - Math.exp(-6 * LEAGUE.otRateMultiplier * minutes / 60);
+  return pGoal * HOME_SHARE + (1 - pGoal) * 0.5;
+};
+
+// Exact win probability from the score and the regulation minutes left
+const exact = (minutes: number, homeScore: number, awayScore: number, tieHome: number) => {
+  let p = 0;
+  for (let h = 0; h <= 20; h++) {
+    for (let a = 0; a <= 20; a++) {
+      const both = poissonPmf(RATES.homeXg * minutes / 60, h) * poissonPmf(RATES.awayXg * minutes / 60, a);
+      const diff = homeScore + h - awayScore - a;
+      p += diff > 0 ? both : diff === 0 ? both * tieHome : 0;
+    }
+  }
+  return p;
+};
+
+// Scoreboard event as ESPN sends it
+const espnEvent = (id: string, state: string, period: number, clock: string, home: string, away: string) => ({
+  id,
+  status: { period, displayClock: clock, type: { state } },
+  competitions: [{
+    competitors: [
+      { homeAway: "home", score: home, team: { abbreviation: "TOR" } },
+      { homeAway: "away", score: away, team: { abbreviation: "BOS" } },
+    ],
+  }],
+});
+
+describe("lib/live", () => {
+  it("reads period, clock and score off the scoreboard", () => {
+    expect(eventLiveState(espnEvent("1", "in", 2, "12:34", "2", "1"))).toEqual(live(2, "12:34", 2, 1));
+    expect(eventLiveState({ id: "2" })).toEqual(live(0, "20:00", 0, 0, "pre"));
+  });
+
+  it("reads the clock in minutes, or in tenths of a second in the last minute", () => {
+    expect(["20:00", "12:34", "0:05", "12.3", "0.0", "45"].map(clockSeconds)).toEqual([1200, 754, 5, 12.3, 0, 45]);
+    for (const clock of ["--:--", "", "End", "1:2", "12:34:56"]) expect(clockSeconds(clock)).toBeNull();
+
+    // 12.3 seconds left in the 3rd, not a full period
+    const late = liveWinProbability(RATES, live(3, "12.3", 2, 1));
+    expect(late.minutesLeft).toBeCloseTo(12.3 / 60, 4);
+    expect(late.homeWin).toBeGreaterThan(0.98);
+
+    expect(unreadableClock(live(2, "--:--", 1, 1))).toBe(true);
+    expect(unreadableClock(live(2, "0.0", 1, 1))).toBe(false);
+    // Only games in progress need the clock
+    expect(unreadableClock(live(3, "Final", 4, 2, "post"))).toBe(false);
+  });
+
+  it("plays out the regulation time left from the current score", () => {
+    const pregame = liveWinProbability(RATES, live(0, "20:00", 0, 0, "pre"));
+    expect(pregame.minutesLeft).toBe(60);
+    expect(pregame.homeWin).toBeCloseTo(exact(60, 0, 0, otHome(LEAGUE.otMinutes)), 4);
+
+    // 2-1 with 12:34 left in the 2nd: 32.57 minutes to go
+    const second = liveWinProbability(RATES, live(2, "12:34", 2, 1));
+    expect(second.minutesLeft).toBeCloseTo(20 + 754 / 60, 4);
+    expect(second.homeWin).toBeCloseTo(exact(20 + 754 / 60, 2, 1, otHome(LEAGUE.otMinutes)), 4);
+    expect(second.homeWin + second.awayWin).toBeCloseTo(1, 4);
+    expect(second.homeWin).toBeGreaterThan(pregame.homeWin);
+    // The deciding goal of a tied game is part of the projected total
+    expect(second.projected.total).toBeCloseTo(3 + 6 * second.minutesLeft / 60 + second.regulationTie!, 3);
+  });
+
+  it("splits regular-season overtime by the time left, then goes to a coin-flip shootout", () => {
+    const overtime = liveWinProbability(RATES, live(4, "2:30", 3, 3));
+    expect(overtime.minutesLeft).toBe(0);
+    expect(overtime.homeWin).toBeCloseTo(otHome(2.5), 4);
+    expect(overtime.projected.total).toBe(7);
+    // Less time, closer to the shootout's coin flip
+    expect(liveWinProbability(RATES, live(4, "0:30", 3, 3)).homeWin).toBeLessThan(overtime.homeWin);
+
+    const shootout = liveWinProbability(RATES, live(5, "0:00", 2, 2));
+    expect([shootout.homeWin, shootout.awayWin]).toEqual([0.5, 0.5]);
+    expect(shootout.projected).toEqual({ home: 2.5, away: 2.5, total: 5 });
+  });
+
+  it("plays playoff overtime as sudden death at each side's share of the goals", () => {
+    for (const state of [live(4, "19:59", 1, 1), live(5, "15:00", 2, 2), live(7, "0:10", 2, 2)]) {
+      expect(liveWinProbability(RATES, state, true).homeWin).toBeCloseTo(HOME_SHARE, 4);
+    }
+    // A tie at the end of playoff regulation goes the same way
+    const lateTie = liveWinProbability(RATES, live(3, "0:00", 2, 2), true);
+    expect(lateTie.homeWin).toBeCloseTo(HOME_SHARE, 4);
+  });
+
+  it("settles final games on the score", () => {
+    expect(liveWinProbability(RATES, live(3, "0:00", 4, 2, "post"))).toEqual({ minutesLeft: 0, homeWin: 1, awayWin: 0, projected: { home: 4, away: 2, total: 6 } });
+    expect(liveWinProbability(RATES, live(5, "0:00", 2, 3, "post")).homeWin).toBe(0);
+  });
+
+  describe("state log", () => {
+    beforeEach(() => {
+      setStore(createMemoryBackend());
+    });
+
+    it("keeps a point per score, period or two-minute change, and stops at the final", async () => {
+      const polls = [
+        espnEvent("9", "pre", 0, "20:00", "0", "0"),
+        espnEvent("9", "in", 1, "20:00", "0", "0"),
+        espnEvent("9", "in", 1, "19:00", "0", "0"),   // A minute later: skipped
+        espnEvent("9", "in", 1, "17:30", "0", "0"),
+        espnEvent("9", "in", 1, "17:10", "1", "0"),
+        espnEvent("9", "in", 2, "20:00", "1", "0"),
+        espnEvent("9", "post", 3, "0:00", "3", "1"),
+        espnEvent("9", "post", 3, "0:00", "3", "1"),
+      ];
+      for (const evt of polls) await recordLiveStates([evt]);
+
+      const points = await loadLiveStates("9");
+      expect(points.map((p) => `${p.state} ${p.period} ${p.clock} ${p.homeScore}-${p.awayScore}`)).toEqual([
+        "in 1 20:00 0-0", "in 1 17:30 0-0", "in 1 17:10 1-0", "in 2 20:00 1-0", "post 3 0:00 3-1",
+      ]);
+      expect(points[0]).toMatchObject({ home: "TOR", away: "BOS" });
+      expect(await loadLiveStates("10")).toEqual([]);
+    });
+
+    it("keeps no state it can't read the clock of", async () => {
+      await recordLiveStates([espnEvent("9", "in", 1, "15:00", "0", "0")]);
+      await recordLiveStates([espnEvent("9", "in", 2, "--:--", "1", "0")]);
+      await recordLiveStates([espnEvent("9", "in", 2, "30.5", "1", "0")]);
+      expect((await loadLiveStates("9")).map((p) => `${p.period} ${p.clock}`)).toEqual(["1 15:00", "2 30.5"]);
+    });
+
+    it("prices every recorded state for the timeline", async () => {
+      await recordLiveStates([espnEvent("9", "in", 1, "20:00", "0", "0")]);
+      await recordLiveStates([espnEvent("9", "in", 3, "5:00", "1", "2")]);
+      await recordLiveStates([espnEvent("9", "in", 4, "5:00", "2", "2")]);
+      const points = await loadLiveStates("9");
+
+      const timeline = winProbabilityTimeline(RATES, points);
+      expect(timeline.map(({ period, clock, score }) => ({ period, clock, score }))).toEqual([
+        { period: 1, clock: "20:00", score: [0, 0] },
+        { period: 3, clock: "5:00", score: [1, 2] },
+        { period: 4, clock: "5:00", score: [2, 2] },
+      ]);
+      expect(timeline.map((row) => row.homeWin)).toEqual(points.map((point) => liveWinProbability(RATES, point).homeWin));
+      expect(timeline[1].homeWin).toBeLessThan(timeline[0].homeWin);
+      expect(timeline[2].at).toBe(points[2].at);
+      // Playoff overtime is priced as such
+      expect(winProbabilityTimeline(RATES, points, true)[2].homeWin).toBeCloseTo(HOME_SHARE, 4);
+    });
+  });
+});
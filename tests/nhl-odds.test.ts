@@ -0,0 +1,200 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import fs from "fs";
+import path from "path";
+import { handler } from "../netlify/functions/nhl-odds";
+import { recordLines } from "../netlify/lib/lines";
+import { getHttpClient, setHttpClient } from "../netlify/lib/http";
+import { createFeedProvider, setOddsProviders } from "../netlify/lib/providers";
+import { download, FEED_URL, FIXTURES, invoke, sourceWarnings, useAllBooks, useFixtures } from "./helpers";
+
+const GAME_DAY = "2024-11-14";
+
+describe("nhl-odds", () => {
+  beforeEach(() => {
+    useFixtures();
+  });
+
+  it("parses every market with implied and no-vig probabilities", async () => {
+    const { status, body } = await invoke(handler, { date: GAME_DAY });
+    expect(status).toBe(200);
+    expect(body.count).toBe(3);
+    const [tor] = body.games;
+    expect(tor.homeTeam.code).toBe("TOR");
+    expect(tor.market).toMatchObject({
+      available: true,
+      favorite: "home",
+      favoriteCode: "TOR",
+      moneyline: { home: -150, away: 130 },
+      total: { line: 6.5, over: -110, under: -110 },
+      missing: [],
+    });
+    expect(tor.market.moneyline.fairHome + tor.market.moneyline.fairAway).toBeCloseTo(1, 3);
+    expect(body.games[2].market.favoriteCode).toBe("EDM");
+    expect(sourceWarnings(body)).toEqual([]);
+  });
+
+  it("reports the season of the date, whatever ?season says", async () => {
+    const { body } = await invoke(handler, { date: GAME_DAY, season: "2019" });
+    expect(body.season).toEqual({ season: 2024, type: "regular" });
+    expect(body.count).toBe(3);
+  });
+
+  it("returns no games on an empty day", async () => {
+    useFixtures("no-games");
+    const { status, body } = await invoke(handler, { date: "2024-11-18" });
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ count: 0, games: [] });
+  });
+
+  it("lists missing prices as null instead of placeholders", async () => {
+    useFixtures("missing-odds");
+    const { body } = await invoke(handler, { date: GAME_DAY });
+    const [tor, uta] = body.games;
+    expect(tor.market.available).toBe(false);
+    expect(tor.market.moneyline.home).toBe(-150);
+    expect(tor.market.total.line).toBeNull();
+    expect(tor.market.missing).toEqual(expect.arrayContaining(["total.line", "spread.home"]));
+    expect(uta.market).toMatchObject({ available: false, missing: ["all"], favoriteCode: null });
+    expect(body.warnings.map((w: any) => `${w.code} ${w.game}`)).toEqual([
+      "ODDS_INCOMPLETE 401688001", "ODDS_NOT_FOUND 401688002", "ODDS_NOT_FOUND 401688003",
+    ]);
+  });
+
+  it("shops every book for the best price per side and a consensus line", async () => {
+    useAllBooks();
+    const { status, body } = await invoke(handler, { date: GAME_DAY });
+    expect(status).toBe(200);
+    const [tor, uta] = body.games;
+    // ESPN BET and DraftKings from the board, FanDuel from the feed, Caesars from the file
+    expect(tor.lines.books.map((b: any) => `${b.source}:${b.provider}`))
+      .toEqual(["ESPN:ESPN BET", "ESPN:DraftKings", "Feed:FanDuel", "File:Caesars"]);
+    expect(tor.market).toMatchObject({ provider: "ESPN BET", moneyline: { home: -150, away: 130 } });
+    expect(tor.lines.best).toEqual({
+      moneyline: { home: { book: "DraftKings", price: -140, line: null }, away: { book: "Caesars", price: 140, line: null } },
+      spread: { home: { book: "Caesars", price: -250, line: 1.5 }, away: { book: "ESPN BET", price: -190, line: 1.5 } },
+      total: { over: { book: "DraftKings", price: -105, line: 6 }, under: { book: "Caesars", price: -110, line: 7 } },
+    });
+    expect(tor.lines.consensus).toMatchObject({ books: 4, spread: -1.5, total: 6.5 });
+    expect(tor.lines.consensus.moneyline.fairHome + tor.lines.consensus.moneyline.fairAway).toBeCloseTo(1, 6);
+    // Only ESPN prices Utah; the feed's next-day row and the file's unknown team are skipped
+    expect(uta.lines.books).toHaveLength(1);
+    expect(body.warnings).toEqual([]);
+  });
+
+  it("leaves out a provider that fails, with a warning", async () => {
+    useAllBooks("/nonexistent/odds.csv");
+    const { status, body } = await invoke(handler, { date: GAME_DAY });
+    expect(status).toBe(200);
+    expect(body.games[0].lines.books).toHaveLength(3);
+    expect(body.warnings).toEqual([expect.objectContaining({ code: "SOURCE_UNAVAILABLE", source: "odds:File" })]);
+  });
+
+  it("keeps exception text and server paths out of warnings and sources", async () => {
+    useAllBooks("/nonexistent/secret/odds.csv");
+    const replay = getHttpClient();
+    setHttpClient({
+      name: "feed-down",
+      get: (url) => (url === FEED_URL ? Promise.reject(new Error("ECONNREFUSED /var/run/feed.sock\n    at connect (/srv/app/node_modules/net.js:1:1)")) : replay.get(url)),
+    });
+    const { status, body } = await invoke(handler, { date: GAME_DAY });
+    expect(status).toBe(200);
+    expect(body.warnings.map((w: any) => w.message).sort())
+      .toEqual(["Feed odds unavailable", "File odds unavailable", "odds-feed unavailable: odds.example.com failed"]);
+    const exposed = JSON.stringify({ warnings: body.warnings, sources: body.sources });
+    ["ENOENT", "ECONNREFUSED", "/nonexistent", "/srv/app", "/var/run", "node_modules", "    at "].forEach((text) => expect(exposed).not.toContain(text));
+  });
+
+  it("downloads the day's lines as CSV with flattened columns", async () => {
+    const { status, headers, text } = await download(handler, { date: GAME_DAY, format: "csv" });
+    expect(status).toBe(200);
+    expect(headers["Content-Type"]).toBe("text/csv; charset=utf-8");
+    expect(headers["Content-Disposition"]).toBe('attachment; filename="nhl-odds-2024-11-14.csv"');
+    const [header, tor] = text.trim().split("\r\n").map((line) => line.split(","));
+    expect(text.trim().split("\r\n")).toHaveLength(4);
+    const cell = (column: string) => tor[header.indexOf(column)];
+    expect(cell("homeTeam.code")).toBe("TOR");
+    expect(cell("market.moneyline.home")).toBe("-150");
+    expect(cell("lines.consensus.total")).toBe("6.5");
+    // The per-book list doesn't fit a row
+    expect(header.some((column) => column.startsWith("lines.books"))).toBe(false);
+  });
+
+  it("downloads the day's games as a calendar with starters and lines", async () => {
+    const { status, headers, text } = await download(handler, { date: GAME_DAY, format: "ics" });
+    expect(status).toBe(200);
+    expect(headers["Content-Type"]).toBe("text/calendar; charset=utf-8");
+    expect(headers["Content-Disposition"]).toBe('attachment; filename="nhl-odds-2024-11-14.ics"');
+    const unfolded = text.replace(/\r\n /g, "");
+    expect(unfolded.match(/BEGIN:VEVENT/g)).toHaveLength(3);
+    expect(unfolded).toContain("UID:401688001@savant-nhl");
+    expect(unfolded).toContain("DTSTART:20241115T000000Z");
+    expect(unfolded).toContain("DTEND:20241115T023000Z");
+    expect(unfolded).toContain("SUMMARY:BOS @ TOR");
+    expect(unfolded).toContain("Starters: BOS Jeremy Swayman (probable) vs TOR Anthony Stolarz (probable)");
+    expect(unfolded).toContain("Line: TOR -150\\, O/U 6.5 (ESPN BET)");
+    text.split("\r\n").forEach((line) => expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75));
+  });
+
+  it("writes a feed book's line into the calendar from its prices", async () => {
+    // FanDuel (odds feed) as the only book: no ESPN-style summary to fall back on
+    useAllBooks();
+    setOddsProviders([createFeedProvider(FEED_URL)]);
+    const { text } = await download(handler, { date: GAME_DAY, format: "ics" });
+    const unfolded = text.replace(/\r\n /g, "");
+    expect(unfolded).toContain("Line: TOR -145\\, O/U 6.5 (FanDuel)");
+    expect(unfolded).not.toContain("Moneyline N/A");
+    // Games the feed doesn't carry
+    expect(unfolded.match(/Line: OFF/g)).toHaveLength(2);
+  });
+
+  it("rejects an unknown format", async () => {
+    const { status, body } = await invoke(handler, { date: GAME_DAY, format: "xml" });
+    expect(status).toBe(400);
+    expect(body).toMatchObject({ code: "INVALID_PARAMETERS", details: ['Unknown format "xml" (use json, csv, ics)'] });
+  });
+
+  it("rejects a date that doesn't parse", async () => {
+    const { status, body } = await invoke(handler, { date: "tomorrow" });
+    expect(status).toBe(400);
+    expect(body.details).toEqual(['Invalid date "tomorrow" (use YYYY-MM-DD or YYYYMMDD)']);
+  });
+
+  it("keeps the line history recorded by earlier fetches", async () => {
+    await invoke(handler, { date: GAME_DAY });
+    const { status, body } = await invoke(handler, { action: "history", gameId: "401688001" });
+    expect(status).toBe(200);
+    expect(body.snapshotCount).toBe(1);
+    expect(body.opening.moneyline).toMatchObject({ home: -150, away: 130 });
+
+    const missing = await invoke(handler, { action: "history", gameId: "1" });
+    expect(missing.status).toBe(404);
+    expect(missing.body).toEqual({ error: "No odds history for game", code: "NO_GAME_FOUND", gameId: "1" });
+  });
+
+  it("keeps a series for every book on the board", async () => {
+    useFixtures("multi-book");
+    await invoke(handler, { date: GAME_DAY });
+    const first = await invoke(handler, { action: "history", gameId: "401688001" });
+    expect(first.body.provider).toBe("ESPN BET");
+    expect(first.body.snapshotCount).toBe(2);
+    expect(first.body.books.map((b: any) => [b.provider, b.snapshotCount, b.opening.moneyline.home])).toEqual([["ESPN BET", 1, -150], ["DraftKings", 1, -140]]);
+
+    // A later fetch where only DraftKings moved
+    const board = JSON.parse(fs.readFileSync(path.join(FIXTURES, "multi-book", "site.api.espn.com_apis_site_v2_sports_hockey_nhl_scoreboard_dates=20241114.json"), "utf8"));
+    const [espnBet, draftKings] = board.events[0].competitions[0].odds;
+    const moved = { ...draftKings, homeTeamOdds: { ...draftKings.homeTeamOdds, moneyLine: -180 }, awayTeamOdds: { ...draftKings.awayTeamOdds, moneyLine: 155 } };
+    await recordLines([{ ...board.events[0], competitions: [{ ...board.events[0].competitions[0], odds: [espnBet, moved] }] }]);
+
+    const { body } = await invoke(handler, { action: "history", gameId: "401688001" });
+    expect(body.snapshotCount).toBe(3);
+    // The primary book didn't move: one snapshot, seen twice
+    expect(body.opening.moneyline).toMatchObject({ home: -150, away: 130 });
+    expect(body.current.lastSeen > body.current.at).toBe(true);
+    expect(body.books.find((b: any) => b.provider === "DraftKings")).toMatchObject({
+      snapshotCount: 2, opening: { moneyline: { home: -140 } }, current: { moneyline: { home: -180, away: 155 } }
+    });
+    expect(body.biggestMoves).toHaveLength(1);
+    expect(body.biggestMoves[0]).toMatchObject({ provider: "DraftKings", market: "moneyline", before: { home: -140, away: 120 }, after: { home: -180, away: 155 } });
+    expect(body.biggestMoves[0].change).toBeGreaterThan(0);
+  });
+});
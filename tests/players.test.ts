@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { foldName, PlayerAccessors, resolvePlayer } from "../netlify/lib/players";
+
+interface Row {
+  playerId: string;
+  name: string;
+}
+
+const GET: PlayerAccessors<Row> = { id: (row) => row.playerId, name: (row) => row.name };
+
+const ROSTER: Row[] = [
+  { playerId: "8478406", name: "Mackenzie Blackwood" },
+  { playerId: "8476999", name: "Linus Ullmark" },
+  { playerId: "8477970", name: "Jean-François Bérubé" },
+  { playerId: "8471239", name: "Cam Talbot Jr." },
+  { playerId: "8478427", name: "Sebastian Aho" },
+  { playerId: "8480222", name: "Sebastian Aho" },
+  { playerId: "8475883", name: "Frederik Andersen" },
+  { playerId: "8479361", name: "Joseph Woll" },
+  { playerId: "8474990", name: "James van Riemsdyk" },
+  { playerId: "8476945", name: "Bob Smith" },
+];
+
+const names = (query: string, playerId?: string) => {
+  const found = resolvePlayer(ROSTER, query, GET, playerId);
+  return { status: found.status, ids: found.candidates.map((row) => row.playerId) };
+};
+
+describe("lib/players", () => {
+  it("folds accents, case, punctuation and suffixes", () => {
+    expect(foldName("Jean-François Bérubé Jr.")).toEqual(["jean", "francois", "berube"]);
+    expect(foldName("  O'REILLY  III ")).toEqual(["oreilly"]);
+    expect(names("jean francois berube")).toEqual({ status: "matched", ids: ["8477970"] });
+    expect(names("BÉRUBÉ")).toEqual({ status: "matched", ids: ["8477970"] });
+  });
+
+  it("drops Jr./Sr./III on either side", () => {
+    expect(names("Cam Talbot")).toEqual({ status: "matched", ids: ["8471239"] });
+    expect(names("Cam Talbot Sr.")).toEqual({ status: "matched", ids: ["8471239"] });
+  });
+
+  it("resolves NHL IDs exactly, from the query or alongside a name", () => {
+    expect(names("8479361")).toEqual({ status: "matched", ids: ["8479361"] });
+    expect(names("8400000")).toEqual({ status: "not-found", ids: [] });
+    // The ID settles a name that's shared
+    expect(names("Sebastian Aho", "8480222")).toEqual({ status: "matched", ids: ["8480222"] });
+  });
+
+  it("returns every player on an ambiguous name", () => {
+    expect(names("Aho")).toEqual({ status: "ambiguous", ids: ["8478427", "8480222"] });
+    expect(names("S. Aho")).toEqual({ status: "ambiguous", ids: ["8478427", "8480222"] });
+  });
+
+  it("narrows a surname by first name or initial", () => {
+    expect(names("F Andersen")).toEqual({ status: "matched", ids: ["8475883"] });
+    expect(names("Jo Woll")).toEqual({ status: "matched", ids: ["8479361"] });
+    // Partial names still work
+    expect(names("van riemsdyk")).toEqual({ status: "matched", ids: ["8474990"] });
+    expect(names("ullm")).toEqual({ status: "matched", ids: ["8476999"] });
+  });
+
+  it("won't hand back a different player who only shares the surname", () => {
+    expect(names("Joe Smith")).toEqual({ status: "not-found", ids: [] });
+    expect(names("J. Smith")).toEqual({ status: "not-found", ids: [] });
+    expect(names("Frederik Aho")).toEqual({ status: "not-found", ids: [] });
+    expect(names("Smith")).toEqual({ status: "matched", ids: ["8476945"] });
+  });
+});
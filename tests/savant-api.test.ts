@@ -0,0 +1,775 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import path from "path";
+import { handler } from "../netlify/functions/savant-api";
+import { createReplayClient } from "../netlify/lib/http";
+import { homeWinProbability } from "../netlify/lib/ratings";
+import { setAdminToken } from "../netlify/lib/auth";
+import { setStore, writeRecord } from "../netlify/lib/store";
+import { ADMIN, download, FIXTURES, invoke, post, sourceWarnings, useAllBooks, useClient, useFixtures } from "./helpers";
+
+const GAME_DAY = "2024-11-14";
+
+describe("savant-api", () => {
+  beforeEach(() => {
+    useFixtures();
+  });
+
+  describe("matchup (normal day)", () => {
+    it("returns both teams, the market summary line and every source", async () => {
+      const { status, body } = await invoke(handler, { home: "TOR", away: "BOS", date: GAME_DAY });
+      expect(status).toBe(200);
+      expect(body.home.name).toBe("TOR");
+      expect(body.away.name).toBe("BOS");
+      expect(body.odds).toEqual({ source: "ESPN", line: "TOR -150", total: 6.5, totalSource: "ESPN" });
+      expect(body.season).toEqual({ season: 2024, type: "regular", blended: false });
+      expect(body.sources.map((s: any) => s.key)).toEqual(expect.arrayContaining([
+        "teams:2024-regular", "goalies:2024-regular", "starters:2024-11-14", "scoreboard:dates=20241114"
+      ]));
+      expect(sourceWarnings(body)).toEqual([]);
+      expect(body.warnings).toEqual([]);
+    });
+
+    it("blends the prior season in with ?blend, and falls back to it when the current one is missing", async () => {
+      const replay = createReplayClient(path.join(FIXTURES, "base"));
+      const lastSeason = (missing: boolean) => useClient({
+        name: "two-seasons",
+        get: (url) => (url.includes("/seasonSummary/2024/") && missing ? Promise.reject(new Error("404")) : replay.get(url.replace("/2023/", "/2024/"))),
+      });
+
+      lastSeason(false);
+      const blended = await invoke(handler, { home: "TOR", away: "BOS", date: GAME_DAY, blend: "true" });
+      expect(blended.status).toBe(200);
+      expect(blended.body.season.blended).toBe(true);
+      expect(blended.body.sources.map((s: any) => s.key)).toEqual(expect.arrayContaining(["teams:2023-regular", "teams:2024-regular", "goalies:2023-regular"]));
+
+      lastSeason(true);
+      const prior = await invoke(handler, { home: "TOR", away: "BOS", date: GAME_DAY, blend: "1" });
+      expect(prior.status).toBe(200);
+      expect(prior.body.home.xgfPercent).toBeCloseTo(blended.body.home.xgfPercent, 6);
+      expect(prior.body.sources.find((s: any) => s.key === "teams:2024-regular").error).toBe("moneypuck.com failed");
+    });
+
+    it("computes PP% from 5on4 goals per power play and PK% from 4on5 goals per time shorthanded", async () => {
+      const { body } = await invoke(handler, { home: "TOR", away: "BOS", date: GAME_DAY });
+      // TOR: 15 PP goals on 60 chances, 11 goals against on 55 times shorthanded
+      expect(body.home.ppPercent).toBeCloseTo(25, 6);
+      expect(body.home.pkPercent).toBeCloseTo(80, 6);
+      // BOS: 9 / 50 and 12 / 60
+      expect(body.away.ppPercent).toBeCloseTo(18, 6);
+      expect(body.away.pkPercent).toBeCloseTo(80, 6);
+      // 130 PIM over 20 games of ice time
+      expect(body.home.pimsPerGame).toBeCloseTo(6.5, 6);
+    });
+
+    it("uses the listed starter and MoneyPuck's goalie columns", async () => {
+      const { body } = await invoke(handler, { home: "TOR", away: "BOS", date: GAME_DAY });
+      expect(body.home.goalie).toMatchObject({ name: "Anthony Stolarz", playerId: "8478911", status: "probable" });
+      // 9 GP x 28 shots at .920: 20 goals on 252 shots, xGoals 18 -> GSAx -2 over 9 hours
+      expect(body.home.goalie.svPct).toBeCloseTo(1 - 20 / 252, 6);
+      expect(body.home.goalie.gsax).toBeCloseTo(-2 / 9, 6);
+      expect(body.away.goalie.name).toBe("Jeremy Swayman");
+    });
+
+    it("flags Boston's back-to-back from the week's scoreboard", async () => {
+      const { body } = await invoke(handler, { home: "TOR", away: "BOS", date: GAME_DAY });
+      expect(body.away.fatigue).toMatchObject({ backToBack: true, restDays: 0, lastGame: "2024-11-13" });
+      expect(body.home.fatigue).toMatchObject({ backToBack: false, lastGame: "2024-11-09" });
+    });
+
+    it("predicts with probabilities that sum to one", async () => {
+      const { status, body } = await invoke(handler, { home: "TOR", away: "BOS", date: GAME_DAY, action: "predict" });
+      expect(status).toBe(200);
+      expect(body.prediction.moneyline.home + body.prediction.moneyline.away).toBeCloseTo(1, 3);
+    });
+
+    it("simulates the same run again from the same seed", async () => {
+      const query = { home: "TOR", away: "BOS", date: GAME_DAY, action: "simulate", sims: "2000", seed: "1234" };
+      const first = await invoke(handler, query);
+      const second = await invoke(handler, query);
+      expect(first.body.simulation.seed).toBe(1234);
+      expect(second.body.simulation).toEqual(first.body.simulation);
+    });
+
+    it("rejects a seed that isn't a whole number", async () => {
+      for (const seed of ["abc", "1.5", ""]) {
+        const { status, body } = await invoke(handler, { home: "TOR", away: "BOS", date: GAME_DAY, action: "simulate", seed });
+        expect(status).toBe(400);
+        expect(body).toMatchObject({ code: "INVALID_PARAMETERS", details: [`seed must be a whole number, got "${seed}"`] });
+      }
+    });
+
+    it("rejects sims and totals that don't parse or are out of range", async () => {
+      const SIMULATE = { home: "TOR", away: "BOS", date: GAME_DAY, action: "simulate" };
+      for (const sims of ["abc", "0", "2.5", "-10", "100001"]) {
+        const { status, body } = await invoke(handler, { ...SIMULATE, sims });
+        expect(status).toBe(400);
+        expect(body).toMatchObject({ code: "INVALID_PARAMETERS", details: [`sims must be a whole number from 1 to 100000, got "${sims}"`] });
+      }
+      for (const total of ["six", "", "0", "-6.5", "6.5.5", "25"]) {
+        const { status, body } = await invoke(handler, { ...SIMULATE, total });
+        expect(status).toBe(400);
+        expect(body.details).toEqual([`total must be a number from 0.5 to 20, got "${total}"`]);
+      }
+      // Every bad value at once
+      const { body } = await invoke(handler, { ...SIMULATE, sims: "lots", seed: "x", total: "high" });
+      expect(body.details).toHaveLength(3);
+
+      const priced = await invoke(handler, { ...SIMULATE, sims: "500", seed: "7", total: "5.5" });
+      expect(priced.status).toBe(200);
+      expect(priced.body.simulation).toMatchObject({ sims: 500, seed: 7, totals: { line: 5.5 }, totalSource: "Query" });
+    });
+
+    it("rejects unknown teams", async () => {
+      const { status, body } = await invoke(handler, { home: "TOR", away: "XYZ", date: GAME_DAY });
+      expect(status).toBe(400);
+      expect(body).toMatchObject({ code: "UNKNOWN_TEAM", unknown: ["XYZ"] });
+    });
+
+    it("rejects a date that doesn't parse instead of fetching today's season", async () => {
+      const { status, body } = await invoke(handler, { home: "TOR", away: "BOS", date: "garbage" });
+      expect(status).toBe(400);
+      expect(body).toEqual({
+        error: "Invalid date or season parameters",
+        code: "INVALID_PARAMETERS",
+        details: ['Invalid date "garbage" (use YYYY-MM-DD or YYYYMMDD)'],
+      });
+      const impossible = await invoke(handler, { action: "schedule", date: "2024-02-30" });
+      expect(impossible.status).toBe(400);
+    });
+
+    it("answers missing teams with the error envelope", async () => {
+      const { status, headers, body } = await invoke(handler, { home: "TOR", date: GAME_DAY });
+      expect(status).toBe(400);
+      expect(headers["Content-Type"]).toBe("application/json");
+      expect(body).toEqual({ error: "Missing parameters", code: "MISSING_PARAMETERS", missing: ["away"] });
+    });
+  });
+
+  describe("schedule and slate", () => {
+    it("lists the day's games with normalized codes", async () => {
+      const { status, body } = await invoke(handler, { action: "schedule", date: GAME_DAY });
+      expect(status).toBe(200);
+      expect(body.count).toBe(3);
+      expect(body.games.map((g: any) => `${g.awayTeam.code}@${g.homeTeam.code}`)).toEqual(["BOS@TOR", "SJS@UTA", "EDM@TBL"]);
+    });
+
+    it("exports the schedule as CSV and as a calendar", async () => {
+      const csv = await download(handler, { action: "schedule", date: "20241114", format: "csv" });
+      expect(csv.headers["Content-Disposition"]).toBe('attachment; filename="nhl-schedule-2024-11-14.csv"');
+      expect(csv.text.split("\r\n")[0]).toBe("id,date,status,homeTeam.name,homeTeam.code,homeTeam.score,homeTeam.logo,awayTeam.name,awayTeam.code,awayTeam.score,awayTeam.logo");
+
+      const ics = await download(handler, { action: "schedule", date: GAME_DAY, format: "ics" });
+      expect(ics.headers["Content-Type"]).toBe("text/calendar; charset=utf-8");
+      const unfolded = ics.text.replace(/\r\n /g, "");
+      expect(unfolded).toContain("SUMMARY:SJS @ UTA");
+      // Utah's starter is listed, San Jose's isn't
+      expect(unfolded).toContain("Starters: SJS TBD vs UTA Karel Vejmelka (probable)");
+      // Built from the prices, with our team code rather than ESPN's "UTAH -200"
+      expect(unfolded).toContain("Line: UTA -200\\, O/U 6 (ESPN BET)");
+    });
+
+    it("prices every game on the slate", async () => {
+      const { body } = await invoke(handler, { action: "slate", date: GAME_DAY });
+      expect(body.count).toBe(3);
+      body.games.forEach((game: any) => {
+        expect(game.prediction).not.toBeNull();
+        expect(game.odds.available).toBe(true);
+      });
+    });
+  });
+
+  describe("power ratings", () => {
+    it("replays the season's completed games, skipping the preseason", async () => {
+      const { status, body } = await invoke(handler, { action: "ratings", date: GAME_DAY });
+      expect(status).toBe(200);
+      expect(body).toMatchObject({ date: GAME_DAY, season: 2024, through: "20241113" });
+      expect(body.ratings.map((r: any) => r.rank)).toEqual(body.ratings.map((_: any, i: number) => i + 1));
+
+      const tor = body.ratings.find((r: any) => r.team === "TOR");
+      const bos = body.ratings.find((r: any) => r.team === "BOS");
+      expect(tor.games).toBe(4);
+      // 4-1 at home, even ratings: home ice makes TOR a .57 favourite
+      expect(tor.history[0]).toMatchObject({ gameId: "401680101", opponent: "BOS", home: true, before: 1500 });
+      expect(tor.history[0].expected).toBeCloseTo(0.5715, 3);
+      expect(tor.history[0].after - 1500).toBeCloseTo(1500 - bos.history[0].after, 6);
+      expect(tor.history[0].after).toBeGreaterThan(1500);
+    });
+
+    it("reads earlier dates back from the stored history", async () => {
+      await invoke(handler, { action: "ratings", date: GAME_DAY });
+      const { body } = await invoke(handler, { action: "ratings", date: "2024-11-01", team: "Toronto" });
+      expect(body.count).toBe(1);
+      expect(body.ratings[0]).toMatchObject({ team: "TOR", games: 2 });
+      expect(body.ratings[0].rating).toBe(body.ratings[0].history[1].after);
+    });
+
+    it("records the logged starter for completed games", async () => {
+      await writeRecord("starter-log:2024-11-09:TOR", [
+        { at: "2024-11-09T20:00:00Z", team: "TOR", goalie: "Anthony Stolarz", playerId: "8478911", status: "confirmed" },
+      ]);
+      const { body } = await invoke(handler, { action: "ratings", date: GAME_DAY, team: "TOR" });
+      expect(body.ratings[0].history.map((p: any) => p.goalie)).toEqual([null, null, null, "8478911"]);
+    });
+
+    it("judges a replayed starter on the games before that day", async () => {
+      await writeRecord("starter-log:2024-11-09:TOR", [
+        { at: "2024-11-09T20:00:00Z", team: "TOR", goalie: "Anthony Stolarz", playerId: "8478911", status: "confirmed" },
+      ]);
+      const { body } = await invoke(handler, { action: "ratings", date: GAME_DAY, team: "TOR" });
+      // Stolarz +0.30 GSAx/60 in his two earlier games, TOR's goaltending +0.10 in its three.
+      // His season row (and TOR's games from the 9th on) must not count.
+      const tor = body.ratings[0].history[3];
+      expect(tor).toMatchObject({ gameId: "401687901", home: false, goalie: "8478911" });
+      const bos = (await invoke(handler, { action: "ratings", date: GAME_DAY, team: "BOS" })).body.ratings[0].history
+        .find((p: any) => p.gameId === "401687901");
+      expect(bos.expected).toBeCloseTo(homeWinProbability(bos.before, tor.before, -0.2), 4);
+      expect(body.sources.map((s: any) => s.key)).toEqual(expect.arrayContaining(["goalie-gamelog:regular:8478911", "gamelog:regular:TOR"]));
+    });
+
+    it("adds both ratings and the starters' adjustments to every matchup", async () => {
+      const ratings = await invoke(handler, { action: "ratings", date: GAME_DAY });
+      const { body } = await invoke(handler, { home: "TOR", away: "BOS", date: GAME_DAY });
+      const rating = (team: string) => ratings.body.ratings.find((r: any) => r.team === team).rating;
+      expect(body.ratings.home).toMatchObject({ team: "TOR", rating: rating("TOR"), games: 4 });
+      expect(body.ratings.away).toMatchObject({ team: "BOS", rating: rating("BOS") });
+      // Stolarz (-0.22 GSAx/60) against TOR's ice-time-weighted +0.03
+      expect(body.ratings.home.goalieAdjustment).toBeCloseTo(-37.5, 0);
+      expect(body.ratings.homeWinProbability).toBeGreaterThan(0);
+      expect(body.ratings.homeWinProbability).toBeLessThan(1);
+    });
+
+    it("warns instead of failing when the scoreboard history is missing", async () => {
+      const replay = createReplayClient(path.join(FIXTURES, "base"));
+      useClient({
+        name: "no-history",
+        get: (url) => (url.includes("dates=202410") ? Promise.reject(new Error("404")) : replay.get(url)),
+      });
+      const { status, body } = await invoke(handler, { home: "TOR", away: "BOS", date: GAME_DAY });
+      expect(status).toBe(200);
+      expect(body.ratings).toBeNull();
+      expect(body.warnings.map((w: any) => w.code)).toContain("RATINGS_UNAVAILABLE");
+    });
+
+    it("asks for every game in a range and flags a full page as possibly cut short", async () => {
+      const replay = createReplayClient(path.join(FIXTURES, "base"));
+      const ranges: string[] = [];
+      useClient({
+        name: "full-page",
+        get: async (url) => {
+          if (!/dates=\d{8}-\d{8}/.test(url)) return replay.get(url);
+          ranges.push(url);
+          const res = await replay.get(url);
+          // October comes back as exactly one page
+          if (!url.includes("dates=20241001-")) return res;
+          return { data: { events: Array.from({ length: 1000 }, (_, i) => res.data.events[i % res.data.events.length]) } };
+        },
+      });
+      const { status, body } = await invoke(handler, { home: "TOR", away: "BOS", date: GAME_DAY });
+      expect(status).toBe(200);
+      expect(ranges.length).toBeGreaterThan(0);
+      expect(ranges.every((url) => url.endsWith("&limit=1000"))).toBe(true);
+      expect(body.warnings).toContainEqual(expect.objectContaining({
+        code: "UPSTREAM_DATA",
+        source: "espn:scoreboard:dates=20241001-20241031",
+        message: "scoreboard: 1000 events for 20241001-20241031 fills the page, later games may be missing",
+      }));
+    });
+
+    it("rates every game on the slate without being asked", async () => {
+      const { body } = await invoke(handler, { action: "slate", date: GAME_DAY });
+      expect(body.games.map((g: any) => [g.ratings.home.team, g.ratings.away.team])).toEqual([["TOR", "BOS"], ["UTA", "SJS"], ["TBL", "EDM"]]);
+      expect(body.games.every((g: any) => g.ratings.homeWinProbability > 0 && g.ratings.homeWinProbability < 1)).toBe(true);
+      expect(body.warnings.map((w: any) => w.code)).not.toContain("RATINGS_UNAVAILABLE");
+    });
+  });
+
+  describe("model config and scenarios", () => {
+    const MATCHUP = { home: "TOR", away: "BOS", date: GAME_DAY };
+
+    it("reports the default config on every matchup", async () => {
+      const { body } = await invoke(handler, MATCHUP);
+      expect(body.config).toEqual({
+        name: null,
+        weights: { goalie: 1, skater: 1, homeIce: 0.04, regression: 0 },
+        fallbacks: { svPct: 0.9, total: 6.5, pimsPerGame: 8 },
+      });
+      expect(body.scenario).toBeUndefined();
+    });
+
+    it("returns the baseline and the scenario side by side", async () => {
+      const { status, body } = await post(handler, {
+        ...MATCHUP,
+        action: "predict",
+        scenario: { home: { goalie: "backup" }, away: { xgfPer60: -0.3 } },
+      });
+      expect(status).toBe(200);
+      expect(body.home.goalie.name).toBe("Anthony Stolarz");
+      expect(body.scenario.home.goalie).toMatchObject({ name: "Joseph Woll", status: "requested" });
+      // Same xGA/60, fewer chances: Boston's share of expected goals drops
+      expect(body.scenario.away.xgaPer60).toBe(body.away.xgaPer60);
+      expect(body.scenario.away.xgfPercent).toBeLessThan(body.away.xgfPercent);
+      expect(body.difference.moneylineHome).toBeGreaterThan(0);
+      expect(body.difference.moneylineHome).toBeCloseTo(body.scenario.prediction.moneyline.home - body.prediction.moneyline.home, 4);
+      expect(body.difference.expectedGoals.away).toBeLessThan(0);
+    });
+
+    it("keeps an xGA/60 change out of xGF%", async () => {
+      const { body } = await post(handler, { ...MATCHUP, action: "predict", scenario: { home: { xgaPer60: 0.5 } } });
+      expect(body.scenario.home.xgaPer60).toBeCloseTo(body.home.xgaPer60 + 0.5, 6);
+      expect(body.scenario.home.xgfPercent).toBe(body.home.xgfPercent);
+      expect(body.difference.expectedGoals.away).toBeGreaterThan(0);
+    });
+
+    it("simulates both sides with the same seed", async () => {
+      const { body } = await post(handler, { ...MATCHUP, action: "simulate", sims: 2000, scenario: { weights: { homeIce: 0 } } });
+      expect(body.scenario.simulation.seed).toBe(body.simulation.seed);
+      expect(body.scenario.weights.homeIce).toBe(0);
+      expect(body.scenario.simulation.moneyline.home).toBeLessThan(body.simulation.moneyline.home);
+    });
+
+    it("uses the config's fallbacks for missing data", async () => {
+      useFixtures("no-games");
+      const { body } = await post(handler, { home: "TOR", away: "BOS", date: "2024-11-18", config: { fallbacks: { total: 6 } } });
+      expect(body.odds).toMatchObject({ total: 6, totalSource: "Default" });
+      expect(body.warnings).toContainEqual(expect.objectContaining({ code: "TOTAL_DEFAULTED", message: "No market total for BOS@TOR, defaulted to 6" }));
+    });
+
+    it("rejects settings out of range and unknown keys", async () => {
+      const { status, body } = await post(handler, {
+        ...MATCHUP,
+        config: { weights: { goalie: 5 }, fudge: 1 },
+        scenario: { away: { xgfPer60: "lots" } },
+      });
+      expect(status).toBe(400);
+      expect(body.code).toBe("INVALID_PARAMETERS");
+      expect(body.details).toEqual([
+        "Unknown setting config.fudge (use weights, fallbacks)",
+        "config.weights.goalie must be a number from 0 to 3",
+        "scenario.away.xgfPer60 must be a number from -2 to 2",
+      ]);
+
+      const broken = await post(handler, "{not json", MATCHUP);
+      expect(broken.status).toBe(400);
+      // The parser's own message stays in the log
+      expect(broken.body).toEqual({ error: "Invalid request body", code: "INVALID_PARAMETERS", details: ["Body is not valid JSON"] });
+    });
+
+    it("saves named configs and prices matchups with them", async () => {
+      const saved = await post(handler, { name: "Neutral-Ice", description: "No home edge", config: { weights: { homeIce: 0 } } }, { action: "configs" }, ADMIN);
+      expect(saved.status).toBe(201);
+      expect(saved.body.saved).toMatchObject({ name: "neutral-ice", description: "No home edge" });
+
+      const list = await invoke(handler, { action: "configs" });
+      expect(list.body.configs.map((c: any) => c.name)).toEqual(["neutral-ice"]);
+
+      const { body } = await invoke(handler, { ...MATCHUP, action: "predict", config: "neutral-ice" });
+      expect(body.config).toMatchObject({ name: "neutral-ice", weights: { homeIce: 0, goalie: 1 } });
+      expect(body.prediction.inputs.weights.homeIce).toBe(0);
+
+      const missing = await invoke(handler, { ...MATCHUP, config: "nope" });
+      expect(missing.status).toBe(404);
+      expect(missing.body).toMatchObject({ code: "CONFIG_NOT_FOUND", saved: ["neutral-ice"] });
+    });
+
+    it("only saves configs with the admin token", async () => {
+      const config = { name: "neutral-ice", config: { weights: { homeIce: 0 } } };
+      const missing = await post(handler, config, { action: "configs" });
+      expect(missing.status).toBe(401);
+      expect(missing.body).toMatchObject({ code: "UNAUTHORIZED", details: ["Missing admin token (Authorization: Bearer <token>)"] });
+      const wrong = await post(handler, config, { action: "configs" }, { authorization: "Bearer guess" });
+      expect(wrong.body).toMatchObject({ code: "UNAUTHORIZED", details: ["Invalid admin token"] });
+
+      // No token configured: writes are off for everyone
+      setAdminToken(null);
+      const disabled = await post(handler, config, { action: "configs" }, ADMIN);
+      expect(disabled.status).toBe(401);
+      expect(disabled.body.details).toEqual(["Writes are disabled: SAVANT_ADMIN_TOKEN is not set"]);
+
+      expect((await invoke(handler, { action: "configs" })).body.count).toBe(0);
+    });
+
+    it("refuses to replace a saved config unless told to overwrite", async () => {
+      await post(handler, { name: "neutral-ice", description: "first", config: { weights: { homeIce: 0 } } }, { action: "configs" }, ADMIN);
+
+      const clash = await post(handler, { name: "Neutral-Ice", description: "second", config: { weights: { homeIce: 0.1 } } }, { action: "configs" }, ADMIN);
+      expect(clash.status).toBe(409);
+      expect(clash.body).toMatchObject({ code: "CONFIG_EXISTS", existing: { name: "neutral-ice", description: "first" } });
+      expect((await invoke(handler, { action: "configs" })).body.configs[0].config.weights.homeIce).toBe(0);
+
+      const replaced = await post(handler, { name: "neutral-ice", description: "second", config: { weights: { homeIce: 0.1 } }, overwrite: true }, { action: "configs" }, ADMIN);
+      expect(replaced.status).toBe(201);
+      const list = await invoke(handler, { action: "configs" });
+      expect(list.body.configs).toHaveLength(1);
+      expect(list.body.configs[0]).toMatchObject({ description: "second", config: { weights: { homeIce: 0.1 } } });
+    });
+  });
+
+  describe("model config outside single matchups", () => {
+    beforeEach(() => {
+      useFixtures();
+    });
+
+    it("prices the slate, edges and live games with the config", async () => {
+      await post(handler, { name: "neutral-ice", config: { weights: { homeIce: 0 } } }, { action: "configs" }, ADMIN);
+      for (const action of ["slate", "live"]) {
+        const { status, body } = await invoke(handler, { action, date: GAME_DAY, config: "neutral-ice" });
+        expect(status).toBe(200);
+        expect(body.config).toMatchObject({ name: "neutral-ice", weights: { homeIce: 0 } });
+      }
+      const slate = await post(handler, { action: "slate", date: GAME_DAY, config: { weights: { homeIce: 0 } } });
+      expect(slate.body.games.every((g: any) => g.prediction.inputs.weights.homeIce === 0)).toBe(true);
+
+      const base = await invoke(handler, { action: "edges", date: GAME_DAY });
+      const neutral = await invoke(handler, { action: "edges", date: GAME_DAY, config: "neutral-ice" });
+      expect(neutral.body.config.name).toBe("neutral-ice");
+      expect(neutral.body.sides).not.toEqual(base.body.sides);
+    });
+
+    it("refuses a scenario anywhere but a single matchup", async () => {
+      for (const action of ["slate", "edges", "live", "backtest"]) {
+        const { status, body } = await post(handler, { action, date: GAME_DAY, from: GAME_DAY, to: GAME_DAY, scenario: { home: { xgfPer60: 0.2 } } });
+        expect(status).toBe(400);
+        expect(body).toMatchObject({ code: "INVALID_PARAMETERS", details: ["scenario only applies to a single matchup (home and away)"] });
+      }
+    });
+
+    it("answers a store failure with the error envelope", async () => {
+      setStore({ name: "broken", get: () => Promise.reject(new Error("disk gone")), set: () => Promise.reject(new Error("disk gone")) });
+      const queries: Record<string, string>[] = [{ home: "TOR", away: "BOS", date: GAME_DAY, config: "neutral-ice" }, { action: "slate", date: GAME_DAY, config: "neutral-ice" }];
+      for (const query of queries) {
+        const { status, body } = await invoke(handler, query);
+        expect(status).toBe(500);
+        expect(body).toMatchObject({ code: "INTERNAL", sources: [] });
+        expect(JSON.stringify(body)).not.toContain("disk gone");
+      }
+    });
+  });
+
+  describe("backtest", () => {
+    const WEEK = { action: "backtest", from: "2024-11-09", to: "2024-11-13" };
+
+    // Game logs cut off at `day`, as MoneyPuck would have served them that morning
+    const logsUpTo = (day: string) => {
+      const replay = createReplayClient(path.join(FIXTURES, "base"));
+      useClient({
+        name: "as-of",
+        get: async (url) => {
+          const res = await replay.get(url);
+          if (!url.includes("/gameByGame/")) return res;
+          const [header, ...rows] = String(res.data).trim().split("\n");
+          const col = header.split(",").indexOf("gameDate");
+          return { data: [header, ...rows.filter((row) => row.split(",")[col] < day)].join("\n") };
+        },
+      });
+    };
+
+    it("scores each game on the team logs from before its day only", async () => {
+      const { status, body } = await invoke(handler, WEEK);
+      expect(status).toBe(200);
+      expect(body.games.map((g: any) => `${g.date} ${g.home}-${g.away} ${g.homeScore}-${g.awayScore}`))
+        .toEqual(["20241109 BOS-TOR 2-3", "20241112 EDM-UTA 4-1", "20241113 BOS-TBL 3-2"]);
+      expect(body.skipped).toEqual([]);
+      expect(body.sources.map((s: any) => s.key)).toEqual(expect.arrayContaining([
+        "scoreboard:dates=20241109", "scoreboard:dates=20241110", "scoreboard:dates=20241113", "gamelog:regular:BOS", "gamelog:regular:TBL"
+      ]));
+
+      // The logs run past the range (game-day rows and the 14th); hiding them changes nothing
+      for (const game of body.games) {
+        logsUpTo(game.date);
+        const day = `${game.date.slice(0, 4)}-${game.date.slice(4, 6)}-${game.date.slice(6)}`;
+        const asOf = await invoke(handler, { action: "backtest", from: day, to: day });
+        expect(asOf.body.games).toEqual([game]);
+      }
+    });
+
+    it("reports log loss, Brier and calibration buckets over the games", async () => {
+      const { body } = await invoke(handler, WEEK);
+      const pairs = body.games.map((g: any) => [g.modelHome, g.homeScore > g.awayScore ? 1 : 0]);
+      const logLoss = -pairs.reduce((sum: number, [p, y]: number[]) => sum + Math.log(y ? p : 1 - p), 0) / pairs.length;
+      const brier = pairs.reduce((sum: number, [p, y]: number[]) => sum + (p - y) ** 2, 0) / pairs.length;
+      expect(body.metrics.games).toBe(3);
+      expect(body.metrics.logLoss).toBeCloseTo(logLoss, 3);
+      expect(body.metrics.brier).toBeCloseTo(brier, 3);
+
+      // Both Boston home games land in one bucket (one won), Edmonton in another
+      expect(body.games.map((g: any) => g.modelHome)).toEqual([expect.closeTo(0.295, 3), expect.closeTo(0.6268, 3), expect.closeTo(0.2744, 3)]);
+      expect(body.metrics.calibration).toEqual([
+        { bin: "0.2-0.3", games: 2, predicted: expect.closeTo((pairs[0][0] + pairs[2][0]) / 2, 3), actual: 0.5 },
+        { bin: "0.6-0.7", games: 1, predicted: expect.closeTo(pairs[1][0], 3), actual: 1 },
+      ]);
+      // No closing lines anywhere: nothing to bet or compare against
+      expect(body.metrics.vsClosing.games).toBe(0);
+      expect(body.metrics.roi).toEqual({ bets: 0, staked: 0, profit: 0, roi: null });
+    });
+
+    it("bets against the stored closing line", async () => {
+      await writeRecord("closing:401687901", {
+        gameId: "401687901", date: "2024-11-10T00:00Z", home: "BOS", away: "TOR", provider: "ESPN BET", recordedAt: "2024-11-09T23:55:00.000Z",
+        moneyline: { home: -400, away: 300 }, total: { line: 6.5, over: -110, under: -110 },
+      });
+      const { body } = await invoke(handler, WEEK);
+      const [bosTor, ...rest] = body.games;
+      expect(bosTor).toMatchObject({ closing: { home: -400, away: 300 }, closingSource: "stored" });
+      // 29.5% at home vs a 20% price: Toronto at +300, and Toronto won
+      expect(bosTor.bet).toEqual({ side: "away", price: 300, profit: 3 });
+      expect(rest.map((g: any) => [g.closing, g.bet])).toEqual([[null, null], [null, null]]);
+
+      expect(body.metrics.roi).toEqual({ bets: 1, staked: 1, profit: 3, roi: 3 });
+      expect(body.metrics.vsClosing.games).toBe(1);
+      // De-vigged: 0.8 / (0.8 + 0.25) for Boston, who lost
+      expect(body.metrics.vsClosing.market.brier).toBeCloseTo((0.8 / 1.05) ** 2, 3);
+      expect(body.metrics.vsClosing.model.brier).toBeCloseTo(bosTor.modelHome ** 2, 3);
+    });
+
+    it("rejects a backwards or oversized range", async () => {
+      const backwards = await invoke(handler, { action: "backtest", from: "2024-11-13", to: "2024-11-09" });
+      expect(backwards.status).toBe(400);
+      expect(backwards.body.details).toEqual(["from must not be after to"]);
+
+      const long = await invoke(handler, { action: "backtest", from: "2024-10-01", to: "2024-11-13" });
+      expect(long.status).toBe(400);
+      expect(long.body.details).toEqual(["Range is limited to 31 days"]);
+    });
+  });
+
+  describe("live games", () => {
+    const byHome = (body: any) => Object.fromEntries(body.games.map((g: any) => [g.homeTeam.code, g]));
+
+    it("prices regulation, overtime and the shootout from the board", async () => {
+      useFixtures("live");
+      const { status, body } = await invoke(handler, { action: "live", date: GAME_DAY });
+      expect(status).toBe(200);
+      const { TOR, UTA, TBL } = byHome(body);
+
+      expect(TOR.state).toEqual({ state: "in", period: 2, clock: "12:34", homeScore: 2, awayScore: 1 });
+      expect(TOR.live.minutesLeft).toBeCloseTo(20 + 754 / 60, 3);
+      expect(TOR.live.homeWin).toBeGreaterThan(TOR.pregame.home);
+      expect(TOR.live.homeWin + TOR.live.awayWin).toBeCloseTo(1, 4);
+
+      // Regular-season overtime leans to the stronger side, less than the pregame line does
+      expect(UTA.pregame.home).toBeGreaterThan(0.5);
+      expect(UTA.live.homeWin).toBeGreaterThan(0.5);
+      expect(UTA.live.homeWin).toBeLessThan(UTA.pregame.home);
+      expect(UTA.live.projected.total).toBe(7);
+      expect(TBL.live).toMatchObject({ minutesLeft: 0, homeWin: 0.5, awayWin: 0.5, projected: { total: 5 } });
+
+      // This fetch is the first state on record for each game
+      for (const game of [TOR, UTA, TBL]) {
+        expect(game.timeline).toEqual([{ at: expect.any(String), period: game.state.period, clock: game.state.clock,
+          score: [game.state.homeScore, game.state.awayScore], homeWin: game.live.homeWin }]);
+      }
+    });
+
+    it("adds the current state to the recorded timeline", async () => {
+      useFixtures("live");
+      const point = (at: string, period: number, clock: string, homeScore: number, awayScore: number) =>
+        ({ at, home: "TOR", away: "BOS", state: "in", period, clock, homeScore, awayScore });
+      await writeRecord("live-states:401688001", [point("2024-11-15T00:10:00.000Z", 1, "20:00", 0, 0), point("2024-11-15T00:25:00.000Z", 1, "8:00", 0, 1)]);
+
+      const { body } = await invoke(handler, { action: "live", home: "TOR", date: GAME_DAY });
+      const [game] = body.games;
+      expect(game.timeline.map((row: any) => [row.period, row.clock, row.score])).toEqual([[1, "20:00", [0, 0]], [1, "8:00", [0, 1]], [2, "12:34", [2, 1]]]);
+      const [start, behind, ahead] = game.timeline.map((row: any) => row.homeWin);
+      expect(start).toBeCloseTo(game.pregame.home, 3);
+      expect(behind).toBeLessThan(start);
+      expect(ahead).toBe(game.live.homeWin);
+    });
+
+    it("settles final games, whether they ended in regulation, overtime or a shootout", async () => {
+      useFixtures("live-final");
+      const { body } = await invoke(handler, { action: "live", date: GAME_DAY });
+      const { TOR, UTA, TBL } = byHome(body);
+      expect([TOR, UTA, TBL].map((g) => [g.live.homeWin, g.live.awayWin, g.live.minutesLeft])).toEqual([[1, 0, 0], [0, 1, 0], [1, 0, 0]]);
+      expect(UTA.live.projected).toEqual({ home: 3, away: 4, total: 7 });
+      expect(TBL.timeline.map((row: any) => row.homeWin)).toEqual([1]);
+    });
+
+    it("reads the last-minute clock and leaves a game with an unreadable clock unpriced", async () => {
+      useFixtures("live-clock");
+      const { status, body } = await invoke(handler, { action: "live", date: GAME_DAY });
+      expect(status).toBe(200);
+      const { TOR, UTA, TBL } = byHome(body);
+
+      expect(TOR.state).toMatchObject({ period: 3, clock: "12.3" });
+      expect(TOR.live.minutesLeft).toBeCloseTo(12.3 / 60, 4);
+      expect(TOR.live.homeWin).toBeGreaterThan(0.98);
+      // End of the 2nd: one period to play, not two
+      expect(UTA.live.minutesLeft).toBe(20);
+
+      expect(TBL.live).toBeNull();
+      expect(TBL.pregame.home).toBeGreaterThan(0);
+      expect(TBL.timeline).toEqual([]);
+      expect(body.warnings).toContainEqual({ code: "LIVE_CLOCK_UNREADABLE", message: 'Clock "--:--" for ' + TBL.awayTeam.code + '@TBL can\'t be read: live odds left out', game: TBL.id });
+    });
+
+    it("plays playoff overtime as sudden death instead of heading to a shootout", async () => {
+      useFixtures("live-playoffs");
+      const { body } = await invoke(handler, { action: "live", home: "TOR", date: GAME_DAY });
+      const [game] = body.games;
+      expect(game.state).toMatchObject({ period: 5, clock: "15:00" });
+      // Toronto's share of the goals, however long it has gone: not the regular season's coin flip,
+      // and closer to even than the pregame line
+      expect(game.live.homeWin).toBeGreaterThan(0.5);
+      expect(game.live.homeWin).toBeLessThan(game.pregame.home);
+      expect(game.live.projected.total).toBe(5);
+    });
+  });
+
+  describe("several books", () => {
+    beforeEach(() => {
+      useAllBooks();
+    });
+
+    it("prices edges at the best moneyline against the consensus", async () => {
+      const { body } = await invoke(handler, { action: "edges", date: GAME_DAY });
+      const tor = body.sides.find((side: any) => side.team === "TOR");
+      const bos = body.sides.find((side: any) => side.team === "BOS");
+      expect(tor).toMatchObject({ book: "DraftKings", price: -140 });
+      expect(bos).toMatchObject({ book: "Caesars", price: 140 });
+      expect(tor.marketFairProb + bos.marketFairProb).toBeCloseTo(1, 3);
+    });
+
+    it("caps every stake at kellyCap and rejects caps outside (0, 1]", async () => {
+      const { body } = await invoke(handler, { action: "edges", date: GAME_DAY, kellyCap: "0.01" });
+      expect(body.kellyCap).toBe(0.01);
+      body.sides.forEach((side: any) => expect(side.kelly).toBeLessThanOrEqual(0.01));
+
+      for (const kellyCap of ["-1", "0", "1.5", "half"]) {
+        const { status, body } = await invoke(handler, { action: "edges", date: GAME_DAY, kellyCap });
+        expect(status).toBe(400);
+        expect(body).toMatchObject({ code: "INVALID_PARAMETERS", details: [`kellyCap must be above 0 and at most 1, got "${kellyCap}"`] });
+      }
+    });
+
+    it("summarises the matchup with the consensus total", async () => {
+      const { body } = await invoke(handler, { home: "BOS", away: "TOR", date: GAME_DAY });
+      expect(body.odds).toEqual({ source: "ESPN", line: "TOR -150", total: 6.5, totalSource: "Consensus" });
+      expect(body.lines.books).toHaveLength(4);
+    });
+  });
+
+  describe("no-game day", () => {
+    beforeEach(() => {
+      useFixtures("no-games");
+    });
+
+    it("returns an empty schedule, slate and edge list", async () => {
+      const schedule = await invoke(handler, { action: "schedule", date: "2024-11-18" });
+      expect(schedule.status).toBe(200);
+      expect(schedule.body.games).toEqual([]);
+
+      const slate = await invoke(handler, { action: "slate", date: "2024-11-18" });
+      expect(slate.body.count).toBe(0);
+
+      const edges = await invoke(handler, { action: "edges", date: "2024-11-18" });
+      expect(edges.status).toBe(200);
+      expect(edges.body.sides).toEqual([]);
+    });
+
+    it("still builds a matchup, with the usage projection and default total", async () => {
+      const { status, body } = await invoke(handler, { home: "TOR", away: "BOS", date: "2024-11-18" });
+      expect(status).toBe(200);
+      expect(body.home.goalie).toMatchObject({ name: "Joseph Woll", status: "projected-by-usage" });
+      expect(body.odds).toEqual({ source: "Not Found", line: "OFF", total: 6.5, totalSource: "Default" });
+      expect(body.warnings.map((w: any) => w.code)).toEqual(["ODDS_NOT_FOUND", "TOTAL_DEFAULTED"]);
+    });
+
+    it("reports a live game that isn't on the board", async () => {
+      const { status, body } = await invoke(handler, { action: "live", home: "TOR", date: "2024-11-18" });
+      expect(status).toBe(404);
+      expect(body.code).toBe("NO_GAME_FOUND");
+    });
+  });
+
+  describe("missing odds", () => {
+    beforeEach(() => {
+      useFixtures("missing-odds");
+    });
+
+    it("marks a moneyline-only market as having no total", async () => {
+      const { body } = await invoke(handler, { home: "TOR", away: "BOS", date: GAME_DAY });
+      expect(body.odds).toEqual({ source: "ESPN", line: "TOR -150", total: 6.5, totalSource: "Default" });
+      expect(body.warnings).toEqual([
+        { code: "TOTAL_DEFAULTED", message: "No market total for BOS@TOR, defaulted to 6.5" },
+      ]);
+    });
+
+    it("still predicts the slate and leaves unpriced sides out of the edges", async () => {
+      const slate = await invoke(handler, { action: "slate", date: GAME_DAY });
+      expect(slate.body.games.every((g: any) => g.prediction !== null)).toBe(true);
+      expect(slate.body.games.map((g: any) => g.odds.available)).toEqual([false, false, false]);
+      expect(slate.body.warnings.map((w: any) => w.code)).toEqual(["ODDS_INCOMPLETE", "ODDS_NOT_FOUND", "ODDS_NOT_FOUND"]);
+
+      const edges = await invoke(handler, { action: "edges", date: GAME_DAY });
+      expect(edges.status).toBe(200);
+      // Only the TOR/BOS moneyline is priced; the other sides carry the model number and no edge
+      const priced = edges.body.sides.filter((side: any) => side.edge !== null);
+      expect(priced.map((side: any) => side.team)).toEqual(expect.arrayContaining(["TOR", "BOS"]));
+      expect(priced).toHaveLength(2);
+      edges.body.sides.slice(2).forEach((side: any) => expect(side).toMatchObject({ price: null, edge: null, kelly: 0 }));
+    });
+  });
+
+  describe("missing starters", () => {
+    it("projects by usage, with the backup on a back-to-back", async () => {
+      useFixtures("missing-starters");
+      const { body } = await invoke(handler, { home: "TOR", away: "BOS", date: GAME_DAY });
+      expect(body.home.goalie).toMatchObject({ name: "Joseph Woll", status: "projected-by-usage" });
+      expect(body.away.goalie).toMatchObject({ name: "Joonas Korpisalo", status: "projected-by-usage", backToBack: true });
+    });
+
+    it("survives the NHL schedule being down", async () => {
+      const replay = createReplayClient(path.join(FIXTURES, "base"));
+      useClient({
+        name: "nhl-down",
+        get: (url) => (url.includes("api-web.nhle.com") ? Promise.reject(new Error("503")) : replay.get(url)),
+      });
+      const { status, body } = await invoke(handler, { home: "TOR", away: "BOS", date: GAME_DAY });
+      expect(status).toBe(200);
+      expect(body.home.goalie.status).toBe("projected-by-usage");
+      expect(body.sources.find((s: any) => s.source === "nhl-schedule").error).toBe("api-web.nhle.com failed");
+      expect(body.warnings).toContainEqual(expect.objectContaining({ code: "SOURCE_UNAVAILABLE", source: "nhl-schedule:starters:2024-11-14" }));
+    });
+  });
+
+  describe("upstream failures", () => {
+    it("answers 502 with the sources when MoneyPuck is down and nothing is cached", async () => {
+      const replay = createReplayClient(path.join(FIXTURES, "base"));
+      useClient({
+        name: "moneypuck-down",
+        get: (url) => (url.includes("moneypuck.com") ? Promise.reject(new Error("socket hang up")) : replay.get(url)),
+      });
+      const { status, body } = await invoke(handler, { home: "TOR", away: "BOS", date: GAME_DAY });
+      expect(status).toBe(502);
+      expect(body).toMatchObject({ error: "Engine Error", code: "UPSTREAM_ERROR" });
+      // The exception text stays in the log
+      expect(body.details).toBeUndefined();
+      expect(body.sources.some((s: any) => s.source === "moneypuck" && s.error)).toBe(true);
+    });
+  });
+
+  describe("renamed CSV columns", () => {
+    beforeEach(() => {
+      useFixtures("renamed-columns");
+    });
+
+    it("reports the missing columns on the sources block", async () => {
+      const { status, body } = await invoke(handler, { home: "TOR", away: "BOS", date: GAME_DAY });
+      expect(status).toBe(200);
+      expect(sourceWarnings(body)).toEqual(expect.arrayContaining([
+        "teams: missing column penaltiesAgainst",
+        "goalies: missing column xGoals",
+      ]));
+      expect(body.warnings).toContainEqual(expect.objectContaining({ code: "UPSTREAM_DATA", message: "goalies: missing column xGoals" }));
+    });
+
+    it("treats unreadable stats as unknown instead of zero", async () => {
+      const { body } = await invoke(handler, { home: "TOR", away: "BOS", date: GAME_DAY });
+      // No power-play count -> 0, which the model replaces with the league rate
+      expect(body.home.ppPercent).toBe(0);
+      expect(body.home.pkPercent).toBeCloseTo(80, 6);
+      // No xGoals -> an average goalie, not -goals
+      expect(body.home.goalie.gsax).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { simulateMatchup } from "../netlify/lib/simulator";
+import { MatchupSide, matchupRates, poissonPmf } from "../netlify/lib/model";
+
+const side = (name: string, xgfPercent: number): MatchupSide => ({
+  name,
+  xgfPercent,
+  xgaPer60: 2.45,
+  ppPercent: 21,
+  pkPercent: 79,
+  goalie: { name: `${name} Goalie`, gsax: 0, svPct: 0.905 },
+});
+
+const HOME = side("TOR", 55);
+const AWAY = side("BOS", 47);
+
+// Exact probabilities from the same regulation rates: P(event) over every regulation score.
+// A regulation tie always ends one goal apart, with one extra goal.
+const exact = (event: (h: number, a: number) => boolean) => {
+  const { homeXg, awayXg } = matchupRates(HOME, AWAY);
+  let p = 0;
+  for (let h = 0; h <= 20; h++) {
+    for (let a = 0; a <= 20; a++) {
+      if (event(h, a)) p += poissonPmf(homeXg, h) * poissonPmf(awayXg, a);
+    }
+  }
+  return p;
+};
+
+describe("lib/simulator", () => {
+  it("replays the same run from the same seed", () => {
+    const first = simulateMatchup(HOME, AWAY, { sims: 5000, seed: 42 });
+    expect(simulateMatchup(HOME, AWAY, { sims: 5000, seed: 42 })).toEqual(first);
+    expect(simulateMatchup(HOME, AWAY, { sims: 5000, seed: 43 }).moneyline).not.toEqual(first.moneyline);
+  });
+
+  it("refuses a seed that isn't an integer instead of picking a random one", () => {
+    expect(() => simulateMatchup(HOME, AWAY, { seed: NaN })).toThrow(RangeError);
+    expect(() => simulateMatchup(HOME, AWAY, { seed: 1.5 })).toThrow(RangeError);
+    expect(Number.isInteger(simulateMatchup(HOME, AWAY, { sims: 10 }).seed)).toBe(true);
+  });
+
+  it("prices the puck line from regulation margins", () => {
+    const { puckLine } = simulateMatchup(HOME, AWAY, { sims: 100000, seed: 7 });
+    // Overtime and shootout winners only ever win by one
+    expect(Math.abs(puckLine.homeMinus1_5 - exact((h, a) => h - a >= 2))).toBeLessThan(0.01);
+    expect(Math.abs(puckLine.awayMinus1_5 - exact((h, a) => a - h >= 2))).toBeLessThan(0.01);
+    expect(puckLine.homeMinus1_5 + puckLine.awayPlus1_5).toBeCloseTo(1, 4);
+    expect(puckLine.awayMinus1_5 + puckLine.homePlus1_5).toBeCloseTo(1, 4);
+  });
+
+  it("prices totals with the deciding goal added to tied games", () => {
+    const finalGoals = (h: number, a: number) => h + a + (h === a ? 1 : 0);
+    const half = simulateMatchup(HOME, AWAY, { sims: 100000, seed: 7, total: 5.5 }).totals;
+    expect(half.push).toBe(0);
+    expect(Math.abs(half.over - exact((h, a) => finalGoals(h, a) > 5.5))).toBeLessThan(0.01);
+    expect(half.over + half.under).toBeCloseTo(1, 4);
+
+    const whole = simulateMatchup(HOME, AWAY, { sims: 100000, seed: 7, total: 6 }).totals;
+    expect(Math.abs(whole.push - exact((h, a) => finalGoals(h, a) === 6))).toBeLessThan(0.01);
+    expect(whole.over + whole.under + whole.push).toBeCloseTo(1, 4);
+  });
+});
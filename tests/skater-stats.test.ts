@@ -0,0 +1,133 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { handler } from "../netlify/functions/skater-stats";
+import { LEAGUE, poissonPmf } from "../netlify/lib/model";
+import { invoke, sourceWarnings, useFixtures } from "./helpers";
+
+const GAME_DAY = "2024-11-14";
+
+// P(X > line) for a Poisson count
+const over = (lambda: number, line: number) => {
+  let under = 0;
+  for (let k = 0; k <= Math.floor(line); k++) under += poissonPmf(lambda, k);
+  return 1 - under;
+};
+
+describe("skater-stats", () => {
+  beforeEach(() => {
+    useFixtures();
+  });
+
+  it("lists skaters with ice time, tonight's games first by projected points", async () => {
+    const { status, body } = await invoke(handler, { date: GAME_DAY });
+    expect(status).toBe(200);
+    // Minten has no ice time
+    expect(body.count).toBe(8);
+    expect(body.skaters.map((s: any) => s.name)).not.toContain("Fraser Minten");
+    const playing = body.skaters.filter((s: any) => s.tonight);
+    expect(playing.map((s: any) => s.team).sort()).toEqual(["BOS", "BOS", "TOR", "TOR", "TOR", "UTA"]);
+    expect(body.skaters.slice(0, 6)).toEqual(playing);
+    const projected = playing.map((s: any) => s.tonight.points.projection);
+    expect(projected).toEqual([...projected].sort((a, b) => b - a));
+    // The rest by points per 60
+    expect(body.skaters.slice(6).map((s: any) => `${s.name} ${s.team}`)).toEqual(["Sebastian Aho CAR", "Sebastian Aho NYI"]);
+    expect(sourceWarnings(body)).toEqual([]);
+  });
+
+  it("computes per-60 rates for each situation", async () => {
+    const { body } = await invoke(handler, { date: GAME_DAY, name: "Matthews" });
+    const [matthews] = body.skaters;
+    // 20 games of 20 minutes
+    expect(matthews.situations.all).toEqual({
+      gamesPlayed: 20,
+      toiPerGame: 20,
+      goalsPer60: 1.8,
+      xGoalsPer60: 1.575,
+      shotsPer60: 12,
+      pointsPer60: 3.3,
+      totals: { goals: 12, xGoals: 10.5, shots: 80, points: 22 },
+    });
+    // 4on5 isn't reported
+    expect(Object.keys(matthews.situations)).toEqual(["all", "5on5", "5on4"]);
+    expect(matthews.situations["5on4"].toiPerGame).toBe(2);
+    expect(matthews.situations["5on4"].goalsPer60).toBe(6);
+  });
+
+  it("projects tonight against the opponent's defense and listed starter", async () => {
+    const { body } = await invoke(handler, { date: GAME_DAY, name: "8479318" });
+    const { tonight } = body.skaters[0];
+    // Boston: 34.5 xGA over 59000s at 5on5; Swayman saved 0.84 above expected in 54000s
+    expect(tonight).toMatchObject({
+      opponent: "BOS",
+      opponentXgaPer60: 2.105,
+      opponentGoalie: { name: "Jeremy Swayman", playerId: "8480280", status: "probable", gsaxPer60: 0.056 },
+      projectedToi: 20,
+    });
+    const defense = 2.105 / LEAGUE.xgaPer60;
+    const goalie = 1 - 0.056 / LEAGUE.goalsPerGame;
+    expect(tonight.adjustments).toEqual({ defense: parseFloat(defense.toFixed(3)), goalie: parseFloat(goalie.toFixed(3)) });
+
+    const shots = 4 * defense;
+    const points = 1.1 * defense * goalie;
+    const goals = 0.6 * defense * goalie;
+    expect(tonight.shotsOnGoal.projection).toBeCloseTo(shots, 2);
+    expect(tonight.points.projection).toBeCloseTo(points, 2);
+    expect(tonight.goals.projection).toBeCloseTo(goals, 2);
+    // Poisson over each prop line
+    expect(Object.keys(tonight.shotsOnGoal.over)).toEqual(["1.5", "2.5", "3.5", "4.5"]);
+    [1.5, 2.5, 3.5, 4.5].forEach((line) => expect(tonight.shotsOnGoal.over[line]).toBeCloseTo(over(shots, line), 4));
+    [0.5, 1.5].forEach((line) => expect(tonight.points.over[line]).toBeCloseTo(over(points, line), 4));
+    expect(tonight.goals.anytime).toBeCloseTo(1 - Math.exp(-goals), 4);
+  });
+
+  it("leaves the projection out for skaters whose team isn't playing", async () => {
+    const { body } = await invoke(handler, { date: GAME_DAY, team: "CAR" });
+    expect(body.skaters.map((s: any) => s.tonight)).toEqual([null]);
+  });
+
+  it("filters by position, with F for any forward", async () => {
+    const forwards = await invoke(handler, { date: GAME_DAY, team: "Toronto", position: "f" });
+    expect(forwards.body.skaters.map((s: any) => s.name).sort()).toEqual(["Auston Matthews", "Mitch Marner"]);
+
+    const defense = await invoke(handler, { date: GAME_DAY, position: "D" });
+    expect(defense.body.skaters.map((s: any) => `${s.name} ${s.team}`).sort())
+      .toEqual(["Charlie McAvoy BOS", "Morgan Rielly TOR", "Sebastian Aho NYI"]);
+
+    const centers = await invoke(handler, { date: GAME_DAY, position: "C" });
+    expect(centers.body.skaters.every((s: any) => s.position === "C")).toBe(true);
+    expect(centers.body.count).toBe(3);
+  });
+
+  it("resolves names and IDs, and returns every skater on an ambiguous name", async () => {
+    const exact = await invoke(handler, { date: GAME_DAY, name: "auston MATTHEWS" });
+    expect(exact.body.match).toEqual({ query: "auston MATTHEWS", status: "matched", candidates: [] });
+    expect(exact.body.count).toBe(1);
+
+    const ambiguous = await invoke(handler, { date: GAME_DAY, name: "Aho" });
+    expect(ambiguous.body.match).toMatchObject({ status: "ambiguous" });
+    expect(ambiguous.body.match.candidates).toEqual([
+      { playerId: "8478427", name: "Sebastian Aho", team: "CAR" },
+      { playerId: "8480222", name: "Sebastian Aho", team: "NYI" },
+    ]);
+    expect(ambiguous.body.count).toBe(2);
+
+    // A team or an ID settles it
+    const narrowed = await invoke(handler, { date: GAME_DAY, name: "Sebastian Aho", team: "NYI" });
+    expect(narrowed.body.match.status).toBe("matched");
+    expect(narrowed.body.skaters[0].position).toBe("D");
+    const byId = await invoke(handler, { date: GAME_DAY, name: "8478427" });
+    expect(byId.body.skaters.map((s: any) => s.team)).toEqual(["CAR"]);
+
+    const missing = await invoke(handler, { date: GAME_DAY, name: "Nobody Atall" });
+    expect(missing.body).toMatchObject({ match: { status: "not-found" }, count: 0, skaters: [] });
+  });
+
+  it("rejects unknown teams and bad dates", async () => {
+    const team = await invoke(handler, { team: "Hamilton" });
+    expect(team.status).toBe(400);
+    expect(team.body.code).toBe("UNKNOWN_TEAM");
+
+    const date = await invoke(handler, { date: "2024-13-01" });
+    expect(date.status).toBe(400);
+    expect(date.body.code).toBe("INVALID_PARAMETERS");
+  });
+});
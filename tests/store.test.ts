@@ -0,0 +1,72 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { CacheBackend, CacheEntry, createMemoryBackend, setCacheBackend } from "../netlify/lib/cache";
+import { readRecord, setStore, updateRecord, writeRecord } from "../netlify/lib/store";
+import { loadStarters } from "../netlify/lib/starters";
+import { useFixtures } from "./helpers";
+
+const GAME_DAY = "2024-11-14";
+
+// A memory store whose reads take a while, so unlocked updates would interleave
+const slowStore = (): CacheBackend => {
+  const inner = createMemoryBackend();
+  return {
+    name: "slow",
+    get: async (key) => {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      return inner.get(key);
+    },
+    set: (key, entry: CacheEntry) => inner.set(key, entry),
+  };
+};
+
+describe("lib/store", () => {
+  beforeEach(() => {
+    setStore(slowStore());
+  });
+
+  it("applies concurrent updates to a record one after another", async () => {
+    await Promise.all(Array.from({ length: 10 }, (_, i) => updateRecord<number[]>("log", (current) => [...(current || []), i])));
+    expect(await readRecord("log")).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+  });
+
+  it("leaves the record alone when the update returns nothing", async () => {
+    await writeRecord("log", [1]);
+    expect(await updateRecord<number[]>("log", () => undefined)).toEqual([1]);
+    expect(await readRecord("log")).toEqual([1]);
+  });
+
+  it("keeps going after a failed update", async () => {
+    const failed = updateRecord<number[]>("log", () => {
+      throw new Error("bad update");
+    });
+    const next = updateRecord<number[]>("log", (current) => [...(current || []), 2]);
+    await expect(failed).rejects.toThrow("bad update");
+    expect(await next).toEqual([2]);
+  });
+
+  describe("starter sightings", () => {
+    beforeEach(() => {
+      useFixtures();
+    });
+
+    it("keeps a listed starter's first-seen time across cold starts", async () => {
+      await writeRecord(`starter-sightings:${GAME_DAY}`, {
+        "2024020251|TOR|8478911": { firstSeen: "2024-11-14T15:00:00.000Z", lastSeen: "2024-11-14T16:00:00.000Z" },
+      });
+      const starters = await loadStarters(GAME_DAY);
+      expect(starters.TOR.firstSeen).toBe("2024-11-14T15:00:00.000Z");
+      expect(starters.TOR.lastSeen! > "2024-11-14T16:00:00.000Z").toBe(true);
+      expect(starters.BOS.firstSeen).toBe(starters.BOS.lastSeen);
+      // Projected teams have no listing to track
+      expect(starters.TBL.firstSeen).toBeNull();
+
+      // A new instance: empty cache, same store
+      setCacheBackend(createMemoryBackend());
+      const again = await loadStarters(GAME_DAY);
+      expect(again.TOR.firstSeen).toBe("2024-11-14T15:00:00.000Z");
+      expect(again.BOS.firstSeen).toBe(starters.BOS.firstSeen);
+      expect(Object.keys((await readRecord(`starter-sightings:${GAME_DAY}`))!).sort())
+        .toEqual(["2024020251|BOS|8480280", "2024020251|TOR|8478911", "2024020252|UTA|8478024"]);
+    });
+  });
+});